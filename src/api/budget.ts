@@ -0,0 +1,311 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   vCredit budget guard. A `CreditBudget` caps the vCredits spent per
+//   conversion, per client instance, and per rolling time window. It
+//   tracks actual spend from task responses as an interceptor, and holds
+//   estimated costs for conversions that are still running.
+
+import type { Interceptor, InterceptorContext, ResponseContext } from './interceptors.ts';
+import type { TransportRequest } from './transport.ts';
+import type { TaskEntity } from './models.ts';
+import { CreditBudgetExceededError } from '../common/exceptions.ts';
+
+/**
+ * Length of the default rolling window: one day.
+ */
+const DEFAULT_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for creating a `CreditBudget`.
+ *
+ * @property perJob - Optional cap on the estimated cost of one conversion.
+ * @property perInstance - Optional cap on the total spend of the budget.
+ * @property daily - Optional cap on the spend within the rolling window.
+ * @property window - Length of the rolling window in milliseconds
+ *                    (default: one day).
+ * @property warnAt - Fraction of a cap left at which the low-budget
+ *                    warning is emitted (default: 0.1).
+ * @property onLowBudget - Optional handler of the low-budget warning;
+ *                         without one, the warning is not reported.
+ */
+export interface CreditBudgetOptions {
+  perJob?: number;
+  perInstance?: number;
+  daily?: number;
+  window?: number;
+  warnAt?: number;
+  onLowBudget?: (status: CreditBudgetStatus) => void;
+}
+
+/**
+ * Current state of a `CreditBudget`.
+ *
+ * @property spent - vCredits spent since the budget was created.
+ * @property spentInWindow - vCredits spent within the rolling window.
+ * @property reserved - Estimated vCredits held for running conversions.
+ * @property remaining - vCredits left under the tightest cap, if any cap
+ *                       is set; reservations are not subtracted.
+ */
+export interface CreditBudgetStatus {
+  spent: number;
+  spentInWindow: number;
+  reserved: number;
+  remaining?: number;
+}
+
+/**
+ * vCredits spent by a task.
+ */
+interface SpendEntry {
+  vcredits: number;
+  at: number;
+}
+
+/**
+ * Estimated vCredits held for a conversion.
+ */
+interface Reservation {
+  vcredits: number;
+  at: number;
+}
+
+/**
+ * Guard that caps vCredit spend.
+ *
+ * Register it on an `API` client with `use()`, or pass it to a
+ * `Converter` as the `budget` option. As an interceptor, it records the
+ * vCredits reported by task responses, once per task, and refuses new
+ * `/convert/file` requests once a cap is reached. A `Converter` also
+ * estimates the cost of each conversion with `/convert/graph` and
+ * reserves it before uploading, so concurrent conversions cannot
+ * overshoot a cap together.
+ */
+export class CreditBudget implements Interceptor {
+  readonly perJob?: number;
+  readonly perInstance?: number;
+  readonly daily?: number;
+  private readonly window: number;
+  private readonly warnAt: number;
+  private readonly onLowBudget: (status: CreditBudgetStatus) => void;
+  private readonly spends = new Map<string, SpendEntry>();
+  private spentBeforeWindow = 0;
+  private readonly reservations = new Map<number, Reservation>();
+  private nextReservation = 1;
+  private warned = false;
+
+  /**
+   * Create a new CreditBudget.
+   *
+   * @param options - Caps, rolling window and warning threshold.
+   * @throws Error - If a cap, the window or the threshold is invalid.
+   */
+  constructor(options: CreditBudgetOptions = {}) {
+    for (const name of ['perJob', 'perInstance', 'daily'] as const) {
+      const cap = options[name];
+      if (cap !== undefined && !(cap >= 0)) {
+        throw new Error(`The ${name} vCredit cap must be a non-negative number.`);
+      }
+    }
+    if (options.window !== undefined && !(options.window > 0)) {
+      throw new Error('The budget window must be a positive number of milliseconds.');
+    }
+    if (options.warnAt !== undefined && !(options.warnAt >= 0 && options.warnAt <= 1)) {
+      throw new Error('The warnAt threshold must be between 0 and 1.');
+    }
+
+    this.perJob = options.perJob;
+    this.perInstance = options.perInstance;
+    this.daily = options.daily;
+    this.window = options.window ?? DEFAULT_WINDOW;
+    this.warnAt = options.warnAt ?? 0.1;
+    this.onLowBudget = options.onLowBudget ?? (() => undefined);
+  }
+
+  /**
+   * Get the current state of the budget.
+   *
+   * Spend that falls out of the rolling window is folded into the total,
+   * so the budget only keeps per-task entries for the current window.
+   *
+   * @returns Spend, reservations and remaining vCredits.
+   */
+  status(): CreditBudgetStatus {
+    const now = Date.now();
+    let spentInWindow = 0;
+    for (const [taskId, entry] of this.spends) {
+      if (entry.at <= now - this.window) {
+        this.spentBeforeWindow += entry.vcredits;
+        this.spends.delete(taskId);
+      } else {
+        spentInWindow += entry.vcredits;
+      }
+    }
+    const spent = this.spentBeforeWindow + spentInWindow;
+
+    let reserved = 0;
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.at <= now - this.window) {
+        // Conversions that never completed stop holding credits.
+        this.reservations.delete(id);
+      } else {
+        reserved += reservation.vcredits;
+      }
+    }
+
+    const remaining = [
+      this.perInstance === undefined ? undefined : this.perInstance - spent,
+      this.daily === undefined ? undefined : this.daily - spentInWindow,
+    ].filter((value): value is number => value !== undefined);
+
+    return {
+      spent,
+      spentInWindow,
+      reserved,
+      remaining: remaining.length ? Math.max(0, Math.min(...remaining)) : undefined,
+    };
+  }
+
+  /**
+   * Reserve the estimated cost of a conversion.
+   *
+   * @param estimate - Optional estimated cost in vCredits. An unknown
+   *                   cost is only checked against caps already reached.
+   * @returns Reservation ID to pass to `release()`.
+   * @throws CreditBudgetExceededError - If the estimate exceeds the
+   *                                     per-job cap, or the remaining
+   *                                     budget after other reservations.
+   */
+  reserve(estimate?: number): number {
+    if (estimate !== undefined && this.perJob !== undefined && estimate > this.perJob) {
+      throw new CreditBudgetExceededError(
+        `The estimated cost of ${estimate} vCredit(s) exceeds ` +
+        `the per-job cap of ${this.perJob}.`
+      );
+    }
+
+    this.check(estimate ?? 0);
+
+    const id = this.nextReservation++;
+    this.reservations.set(id, { vcredits: estimate ?? 0, at: Date.now() });
+    return id;
+  }
+
+  /**
+   * Release a reservation once its conversion completed or failed.
+   *
+   * @param id - Reservation ID returned by `reserve()`.
+   * @returns Void.
+   */
+  release(id: number): void {
+    this.reservations.delete(id);
+  }
+
+  /**
+   * Record the vCredits spent by a task.
+   *
+   * Recording the same task again within the rolling window replaces
+   * its previous amount, so repeated task responses are not counted twice.
+   *
+   * @param taskId - ID of the task entity.
+   * @param vcredits - vCredits spent by the task.
+   * @returns Void.
+   */
+  record(taskId: string, vcredits: number): void {
+    const previous = this.spends.get(taskId);
+    if (previous?.vcredits === vcredits) {
+      return;
+    }
+
+    this.spends.set(taskId, { vcredits, at: previous?.at ?? Date.now() });
+    this.warnIfLow();
+  }
+
+  /**
+   * Refuse new conversions once a cap is reached.
+   *
+   * @param request - The outgoing request.
+   * @param context - Context of the current attempt.
+   * @returns Void.
+   * @throws CreditBudgetExceededError - If a cap is reached.
+   */
+  onRequest(request: TransportRequest, context: InterceptorContext): void {
+    if (context.endpoint === '/convert/file') {
+      this.check(0, false);
+    }
+  }
+
+  /**
+   * Record the vCredits reported by task responses.
+   *
+   * @param data - Parsed response body.
+   * @param context - Context of the current attempt.
+   * @returns Void.
+   */
+  onResponse(data: unknown, context: ResponseContext): void {
+    const body = data as {
+      entity?: Partial<TaskEntity>;
+      result?: { output?: { entity?: Partial<TaskEntity> } };
+    } | undefined;
+    const entity = context.endpoint === '/task/response'
+      ? body?.result?.output?.entity
+      : context.endpoint === '/convert/file' ? body?.entity : undefined;
+
+    if (typeof entity?.id === 'string' && typeof entity.vcredits === 'number') {
+      this.record(entity.id, entity.vcredits);
+    }
+  }
+
+  /**
+   * Check that additional spend fits under the instance and window caps.
+   *
+   * @param additional - vCredits about to be spent.
+   * @param includeReserved - Whether to count reserved vCredits as spent.
+   * @returns Void.
+   * @throws CreditBudgetExceededError - If a cap would be exceeded.
+   */
+  private check(additional: number, includeReserved: boolean = true): void {
+    const status = this.status();
+    const reserved = includeReserved ? status.reserved : 0;
+    const caps = [
+      { name: 'per-instance', cap: this.perInstance, spent: status.spent },
+      { name: 'daily', cap: this.daily, spent: status.spentInWindow },
+    ];
+
+    for (const { name, cap, spent } of caps) {
+      if (cap === undefined) continue;
+
+      const total = spent + reserved + additional;
+      if (spent >= cap || total > cap) {
+        throw new CreditBudgetExceededError(
+          `The ${name} cap of ${cap} vCredit(s) would be exceeded ` +
+          `(${spent} spent, ${reserved} reserved, ${additional} requested).`
+        );
+      }
+    }
+  }
+
+  /**
+   * Emit the low-budget warning once when the remaining vCredits drop to
+   * the threshold, and re-arm it when they rise above it again.
+   *
+   * @returns Void.
+   */
+  private warnIfLow(): void {
+    const status = this.status();
+    const low =
+      (this.perInstance !== undefined &&
+        this.perInstance - status.spent <= this.perInstance * this.warnAt) ||
+      (this.daily !== undefined &&
+        this.daily - status.spentInWindow <= this.daily * this.warnAt);
+
+    if (low && !this.warned) {
+      this.onLowBudget(status);
+    }
+    this.warned = low;
+  }
+}
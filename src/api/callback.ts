@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Receiver for conversion callbacks. When a conversion is started with
+//   a callback URL, the service notifies that URL with the task response
+//   once the task is completed. `CallbackReceiver` parses and validates
+//   those payloads and resolves the conversions waiting for them.
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { TaskResponseOutput } from './models.ts';
+import { validateTaskResponse } from './models.ts';
+import { InvalidJSONResponseError } from '../common/exceptions.ts';
+import { throwIfAborted } from '../utils/misc.ts';
+
+/**
+ * Options for `CallbackReceiver`.
+ *
+ * @property ttl - Time (in milliseconds) an unclaimed callback is kept
+ *                 (default: 1 hour).
+ * @property maxEntries - Maximum number of unclaimed callbacks kept; the
+ *                        oldest are dropped first (default: 1000).
+ * @property maxBodySize - Maximum size (in bytes) of a request body read
+ *                         by `handler()`; larger ones are answered with
+ *                         413 (default: 1 MB).
+ */
+export interface CallbackReceiverOptions {
+  ttl?: number;
+  maxEntries?: number;
+  maxBodySize?: number;
+}
+
+/**
+ * Collects conversion callbacks and hands them to waiting conversions.
+ *
+ * Feed incoming payloads to `receive()`, or mount `handler()` on a
+ * Node.js HTTP server or compatible framework. Payloads have the same
+ * shape as the response of `/task/response` and are keyed by the task
+ * connector, so a callback that arrives before `waitFor()` is called is
+ * kept until it is claimed, expires, or is evicted by newer ones.
+ * Payloads of tasks that are not completed yet are ignored.
+ *
+ * Callback payloads are not authenticated: anyone who can reach the
+ * callback URL can post one. Treat them as a notification only;
+ * `Conversion.waitForCallback` confirms the task status with the API
+ * before using it.
+ */
+export class CallbackReceiver {
+  private readonly received = new Map<string, { output: TaskResponseOutput; expires: number }>();
+  private readonly pending = new Map<string, ((output: TaskResponseOutput) => void)[]>();
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+  private readonly maxBodySize: number;
+
+  /**
+   * Create a new CallbackReceiver.
+   *
+   * @param options - Optional limits for unclaimed callbacks and
+   *                  request bodies.
+   */
+  constructor(options: CallbackReceiverOptions = {}) {
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+  }
+
+  /**
+   * Parse, validate and dispatch a callback payload.
+   *
+   * @param payload - The payload as a JSON string, bytes, or parsed object.
+   * @returns The task response output carried by the payload.
+   * @throws InvalidJSONResponseError - If the payload is not valid JSON or
+   *                                    does not describe a task response.
+   */
+  receive(payload: unknown): TaskResponseOutput {
+    let data = payload;
+    if (typeof data === 'string' || data instanceof Uint8Array) {
+      const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+      try {
+        data = JSON.parse(text);
+      } catch {
+        throw new InvalidJSONResponseError(
+          'Invalid callback payload: body is not valid JSON.',
+          { response: text }
+        );
+      }
+    }
+
+    const output = validateTaskResponse(data).result.output;
+    if (output.entity.status !== 'completed') {
+      return output;
+    }
+
+    const connector = output.entity.id;
+    const waiters = this.pending.get(connector);
+
+    if (waiters) {
+      this.pending.delete(connector);
+      waiters.forEach(resolve => resolve(output));
+    } else {
+      this.store(connector, output);
+    }
+
+    return output;
+  }
+
+  /**
+   * Wait for the callback of a task.
+   *
+   * @param connector - Connector of the task, i.e. its entity ID.
+   * @param signal - Optional `AbortSignal` that stops waiting.
+   * @returns The task response output delivered by the callback.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  waitFor(connector: string, signal?: AbortSignal): Promise<TaskResponseOutput> {
+    throwIfAborted(signal);
+
+    const entry = this.received.get(connector);
+    this.received.delete(connector);
+    if (entry && entry.expires > Date.now()) {
+      return Promise.resolve(entry.output);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (value: TaskResponseOutput) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      };
+      const onAbort = () => {
+        const remaining = (this.pending.get(connector) ?? []).filter(item => item !== waiter);
+        if (remaining.length) {
+          this.pending.set(connector, remaining);
+        } else {
+          this.pending.delete(connector);
+        }
+        try {
+          throwIfAborted(signal);
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(connector, [...(this.pending.get(connector) ?? []), waiter]);
+    });
+  }
+
+  /**
+   * Create a request handler for Node.js HTTP servers.
+   *
+   * The handler answers 204 for accepted payloads, 400 for invalid or
+   * incomplete ones, 413 for bodies over `maxBodySize`, and 500 for any
+   * other failure. Oversized requests are destroyed once answered, without
+   * reading the rest of the body. It never rejects, so
+   * it can be mounted as a listener without an error handler. If a
+   * framework already parsed the body into `req.body`, that value is
+   * used instead of reading the request stream.
+   *
+   * @returns A `(req, res)` request listener.
+   */
+  handler(): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      try {
+        const parsed = (req as IncomingMessage & { body?: unknown }).body;
+        this.receive(parsed ?? await this.readBody(req));
+        res.statusCode = 204;
+        res.end();
+      } catch (error) {
+        if (res.headersSent || res.destroyed) {
+          return;
+        }
+        const invalid = error instanceof InvalidJSONResponseError;
+        const tooLarge = invalid && error.httpStatus === 413;
+        res.statusCode = tooLarge ? 413 : invalid ? 400 : 500;
+        res.setHeader('Content-Type', 'application/json');
+        if (tooLarge) {
+          res.setHeader('Connection', 'close');
+        }
+        res.end(JSON.stringify({
+          error: {
+            message: invalid
+              ? error.message
+              : 'The callback could not be processed.',
+          },
+        }), () => {
+          // The rest of an oversized body is never read.
+          if (tooLarge) req.destroy();
+        });
+      }
+    };
+  }
+
+  /**
+   * Keep an unclaimed callback, dropping expired and excess entries.
+   *
+   * @param connector - Connector of the task.
+   * @param output - The task response output.
+   * @returns Void.
+   */
+  private store(connector: string, output: TaskResponseOutput): void {
+    const now = Date.now();
+    for (const [key, entry] of this.received) {
+      if (entry.expires <= now) {
+        this.received.delete(key);
+      }
+    }
+
+    this.received.delete(connector);
+    this.received.set(connector, { output, expires: now + this.ttl });
+    for (const key of this.received.keys()) {
+      if (this.received.size <= this.maxEntries) break;
+      this.received.delete(key);
+    }
+  }
+
+  /**
+   * Read the full request body, up to `maxBodySize` bytes.
+   *
+   * Reading stops as soon as the body is known to be too large; the
+   * request is left paused, so the caller can still answer it.
+   *
+   * @param req - Incoming request.
+   * @returns The body bytes.
+   * @throws InvalidJSONResponseError - If the body exceeds `maxBodySize`
+   *                                    (with `httpStatus` 413), or the
+   *                                    client disconnects before the body
+   *                                    is complete.
+   */
+  private readBody(req: IncomingMessage): Promise<Uint8Array> {
+    const tooLarge = () => new InvalidJSONResponseError(
+      `Invalid callback payload: the body exceeds ${this.maxBodySize} bytes.`,
+      { httpStatus: 413 }
+    );
+    if (Number(req.headers['content-length']) > this.maxBodySize) {
+      return Promise.reject(tooLarge());
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+
+      const cleanup = () => {
+        req.off('data', onData);
+        req.off('end', onEnd);
+        req.off('error', onError);
+        req.off('close', onClose);
+      };
+      const onData = (chunk: Uint8Array) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          cleanup();
+          req.pause();
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      };
+      const onEnd = () => {
+        cleanup();
+        resolve(Buffer.concat(chunks));
+      };
+      const onError = (error?: Error) => {
+        cleanup();
+        reject(new InvalidJSONResponseError(
+          'Invalid callback payload: the body is incomplete.',
+          error ? { cause: error } : {}
+        ));
+      };
+      const onClose = () => onError();
+
+      req.on('data', onData);
+      req.on('end', onEnd);
+      req.on('error', onError);
+      req.on('close', onClose);
+    });
+  }
+}
@@ -0,0 +1,394 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Cached view of the formats supported by the Vertopal API. The
+//   `FormatCatalog` memoizes format lookups with a TTL, can crawl the
+//   full input-to-output matrix, and exports and imports JSON snapshots
+//   so lookups can be served offline.
+
+import { API } from './v1.ts';
+import type { RequestOptions } from './interface.ts';
+import type { ConvertGraphOutput, FormatInfo } from './models.ts';
+import { InterfaceSublistMode } from '../common/enums.ts';
+import { Config } from '../config/config.ts';
+import { FormatError } from '../common/exceptions.ts';
+import { canonicalizeFormat, throwIfAborted } from '../utils/misc.ts';
+
+/**
+ * Version of the snapshot format.
+ */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Options for creating a `FormatCatalog`.
+ *
+ * @property ttl - Time in milliseconds lookups stay cached; defaults to
+ *                 the `conversionSettings.catalogTtl` configuration value.
+ * @property snapshot - Optional snapshot to warm the catalog with.
+ */
+export interface FormatCatalogOptions {
+  ttl?: number;
+  snapshot?: FormatCatalogSnapshot;
+}
+
+/**
+ * Serializable snapshot of a `FormatCatalog`.
+ *
+ * @property version - Snapshot format version.
+ * @property createdAt - ISO 8601 timestamp of the export.
+ * @property inputs - Input formats, if they were looked up.
+ * @property outputs - Output formats keyed by input format.
+ * @property formats - Format details keyed by format name.
+ * @property graphs - Conversion paths keyed by "input>output".
+ */
+export interface FormatCatalogSnapshot {
+  version: number;
+  createdAt: string;
+  inputs?: string[];
+  outputs: Record<string, string[]>;
+  formats: Record<string, FormatInfo>;
+  graphs: Record<string, ConvertGraphOutput>;
+}
+
+/**
+ * A cached lookup result.
+ *
+ * @property signal - Abort signal of the request, while it is pending.
+ * @property settled - Whether the request has succeeded.
+ */
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expires: number;
+  signal?: AbortSignal;
+  settled: boolean;
+}
+
+/**
+ * Cached catalog of the formats supported by the Vertopal API.
+ *
+ * Lookups are fetched on first use and served from memory until their
+ * TTL expires. Concurrent lookups of the same key share one request if
+ * they use the same abort signal (or none), so aborting one caller never
+ * fails the lookups of another.
+ * Entries imported from a snapshot do not expire, so a bundled snapshot
+ * keeps working offline; call `clear()` or `crawl()` to refresh them.
+ */
+export class FormatCatalog {
+  private readonly client: API;
+  private readonly ttl: number;
+  private readonly cache = new Map<string, CacheEntry<unknown>>();
+  private readonly values = new Map<string, unknown>();
+
+  /**
+   * Create a new FormatCatalog.
+   *
+   * @param client - Optional API client used for lookups.
+   * @param options - Optional TTL and snapshot to start from.
+   */
+  constructor(client?: API, options: FormatCatalogOptions = {}) {
+    this.client = client ?? new API();
+    this.ttl = options.ttl ?? Config.get('conversionSettings', 'catalogTtl');
+
+    if (options.snapshot) {
+      this.importSnapshot(options.snapshot);
+    }
+  }
+
+  /**
+   * List all input formats.
+   *
+   * @param options - Optional request options such as an abort signal.
+   * @returns The input formats.
+   */
+  async inputs(options: RequestOptions = {}): Promise<string[]> {
+    return this.lookup('inputs', () => this.fetchInputs(options), options.signal);
+  }
+
+  /**
+   * List the output formats an input format can be converted to.
+   *
+   * @param inputFormat - Input format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns The output formats.
+   */
+  async outputsFor(inputFormat: string, options: RequestOptions = {}): Promise<string[]> {
+    const input = canonicalizeFormat(inputFormat) as string;
+    return this.lookup(
+      `outputs:${input}`, () => this.fetchOutputs(input, options), options.signal
+    );
+  }
+
+  /**
+   * Check whether a conversion between two formats is supported.
+   *
+   * @param inputFormat - Input format[-type].
+   * @param outputFormat - Output format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns `true` if the input can be converted to the output.
+   */
+  async canConvert(
+    inputFormat: string,
+    outputFormat: string,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    try {
+      const outputs = await this.outputsFor(inputFormat, options);
+      return outputs.includes(canonicalizeFormat(outputFormat) as string);
+    } catch (error) {
+      if (error instanceof FormatError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the details of a format.
+   *
+   * @param formatName - Format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns The format details.
+   */
+  async info(formatName: string, options: RequestOptions = {}): Promise<FormatInfo> {
+    const format = canonicalizeFormat(formatName) as string;
+    return this.lookup(`formats:${format}`, async () => {
+      const response = await this.client.formatGet(format, options);
+      return response.result.output;
+    }, options.signal);
+  }
+
+  /**
+   * Get the conversion path between two formats.
+   *
+   * @param inputFormat - Input format[-type].
+   * @param outputFormat - Output format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns The conversion path and its estimated cost.
+   */
+  async graph(
+    inputFormat: string,
+    outputFormat: string,
+    options: RequestOptions = {}
+  ): Promise<ConvertGraphOutput> {
+    const input = canonicalizeFormat(inputFormat) as string;
+    const output = canonicalizeFormat(outputFormat) as string;
+    return this.lookup(`graphs:${input}>${output}`, async () => {
+      const response = await this.client.convertGraph(input, output, options);
+      return response.result.output;
+    }, options.signal);
+  }
+
+  /**
+   * Fetch the full input-to-output matrix.
+   *
+   * Inputs are crawled one at a time to keep the load on the API low.
+   * The cached lookups are replaced only once the whole matrix has been
+   * fetched, so a failed or aborted crawl leaves the catalog unchanged.
+   * Entries fetched by a crawl follow the catalog's TTL.
+   *
+   * @param options - Optional request options such as an abort signal.
+   * @returns The output formats keyed by input format.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  async crawl(options: RequestOptions = {}): Promise<Record<string, string[]>> {
+    const inputs = await this.fetchInputs(options);
+    const matrix: Record<string, string[]> = {};
+    for (const input of inputs) {
+      throwIfAborted(options.signal);
+      matrix[input] = await this.fetchOutputs(canonicalizeFormat(input) as string, options);
+    }
+
+    this.clear();
+    this.store('inputs', inputs, this.ttl);
+    for (const [input, outputs] of Object.entries(matrix)) {
+      this.store(`outputs:${canonicalizeFormat(input)}`, outputs, this.ttl);
+    }
+    return matrix;
+  }
+
+  /**
+   * Export the cached lookups as a snapshot.
+   *
+   * Only lookups that completed successfully are included.
+   *
+   * @returns A JSON-serializable snapshot.
+   */
+  exportSnapshot(): FormatCatalogSnapshot {
+    const snapshot: FormatCatalogSnapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      outputs: {},
+      formats: {},
+      graphs: {},
+    };
+
+    for (const [key, value] of this.values) {
+      if (!this.fresh(key)) continue;
+
+      const [section, name] = splitKey(key);
+      if (section === 'inputs') {
+        snapshot.inputs = value as string[];
+      } else {
+        (snapshot[section] as Record<string, unknown>)[name!] = value;
+      }
+    }
+    return snapshot;
+  }
+
+  /**
+   * Import the lookups of a snapshot. Imported entries do not expire.
+   *
+   * @param snapshot - A snapshot created by `exportSnapshot`.
+   * @returns Void.
+   * @throws Error - If the snapshot has an unsupported version.
+   */
+  importSnapshot(snapshot: FormatCatalogSnapshot): void {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported format catalog snapshot version: ${snapshot?.version}.`);
+    }
+
+    if (snapshot.inputs) {
+      this.store('inputs', snapshot.inputs, Infinity);
+    }
+    for (const section of ['outputs', 'formats', 'graphs'] as const) {
+      for (const [name, value] of Object.entries(snapshot[section] ?? {})) {
+        this.store(`${section}:${name}`, value, Infinity);
+      }
+    }
+  }
+
+  /**
+   * Serialize the catalog as a snapshot.
+   *
+   * @returns A JSON-serializable snapshot.
+   */
+  toJSON(): FormatCatalogSnapshot {
+    return this.exportSnapshot();
+  }
+
+  /**
+   * Remove all cached lookups.
+   *
+   * @returns Void.
+   */
+  clear(): void {
+    this.cache.clear();
+    this.values.clear();
+  }
+
+  /**
+   * Fetch the input formats from the API.
+   *
+   * @param options - Optional request options such as an abort signal.
+   * @returns The input formats.
+   */
+  private async fetchInputs(options: RequestOptions): Promise<string[]> {
+    const response = await this.client.convertFormats(
+      InterfaceSublistMode.INPUTS, undefined, options
+    );
+    return response.result.output.inputs ?? [];
+  }
+
+  /**
+   * Fetch the output formats of an input format from the API.
+   *
+   * @param input - Canonical input format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns The output formats.
+   */
+  private async fetchOutputs(input: string, options: RequestOptions): Promise<string[]> {
+    const response = await this.client.convertFormats(
+      InterfaceSublistMode.OUTPUTS, input, options
+    );
+    return response.result.output.outputs ?? [];
+  }
+
+  /**
+   * Serve a lookup from the cache or fetch it.
+   *
+   * A pending request is only shared with callers using the same abort
+   * signal. Failed lookups are not cached.
+   *
+   * @param key - Cache key.
+   * @param fetcher - Function fetching the value.
+   * @param signal - Optional `AbortSignal` the fetcher uses.
+   * @returns The cached or fetched value.
+   */
+  private lookup<T>(key: string, fetcher: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const cached = this.cache.get(key);
+    if (cached && this.fresh(key) && (cached.settled || cached.signal === signal)) {
+      return cached.value as Promise<T>;
+    }
+
+    const entry: CacheEntry<T> = {
+      value: fetcher().then(
+        result => {
+          if (this.cache.get(key) === entry) {
+            entry.settled = true;
+            entry.signal = undefined;
+            this.values.set(key, result);
+          }
+          return result;
+        },
+        error => {
+          if (this.cache.get(key) === entry) {
+            this.cache.delete(key);
+          }
+          throw error;
+        }
+      ),
+      expires: Date.now() + this.ttl,
+      signal,
+      settled: false,
+    };
+    this.values.delete(key);
+    this.cache.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a known value in the cache.
+   *
+   * @param key - Cache key.
+   * @param value - The value.
+   * @param ttl - Time in milliseconds the value stays cached.
+   * @returns Void.
+   */
+  private store(key: string, value: unknown, ttl: number): void {
+    this.values.set(key, value);
+    this.cache.set(key, {
+      value: Promise.resolve(value),
+      expires: Date.now() + ttl,
+      settled: true,
+    });
+  }
+
+  /**
+   * Check whether a cache entry exists and has not expired.
+   *
+   * @param key - Cache key.
+   * @returns `true` if the entry can be served.
+   */
+  private fresh(key: string): boolean {
+    const entry = this.cache.get(key);
+    return !!entry && entry.expires > Date.now();
+  }
+}
+
+/**
+ * Split a cache key into its snapshot section and name.
+ *
+ * @param key - Cache key such as "outputs:docx".
+ * @returns The section and, except for "inputs", the name.
+ */
+function splitKey(key: string): ['inputs'] | ['outputs' | 'formats' | 'graphs', string] {
+  if (key === 'inputs') {
+    return ['inputs'];
+  }
+  const index = key.indexOf(':');
+  return [key.slice(0, index) as 'outputs' | 'formats' | 'graphs', key.slice(index + 1)];
+}
@@ -11,22 +11,66 @@
 
 import { API } from './v1.ts';
 import { Credential } from './credential.ts';
+import type { InterfaceOptions, RequestOptions } from './interface.ts';
+import type { CallbackReceiver } from './callback.ts';
+import type {
+  ConversionResult,
+  ConvertFileResponse,
+  TaskResponseOutput
+} from './models.ts';
+import { RetryPolicy } from './retry.ts';
+import { FormatCatalog } from './catalog.ts';
+import { Preflight } from './preflight.ts';
+import { ConversionPlan } from './plan.ts';
+import type { CreditBudget } from './budget.ts';
+import type { UsageLedger } from './ledger.ts';
+import { UploadSession } from './upload.ts';
+import { Pipeline } from './pipeline.ts';
+import {
+  ParameterBuilder,
+  validateConversionParameters,
+  type ConversionParameters
+} from './options.ts';
 import { InterfaceStrategyMode } from '../common/enums.ts';
 import type { Readable, Writable, PathWritable } from '../io/protocols.ts';
-import { canonicalizeFormat } from '../utils/misc.ts';
+import {
+  canonicalizeFormat,
+  getExtension,
+  poll,
+  throwIfAborted
+} from '../utils/misc.ts';
 import { SLEEP_PATTERN } from '../config/settings.ts';
-import { EntityStatusNotRunningError } from '../common/exceptions.ts';
+import { Config } from '../config/config.ts';
+import {
+  APIException,
+  ConversionAbortedError,
+  ConversionBatchError,
+  DownloadExpiredError,
+  EntityStatusNotRunningError,
+  FormatError,
+  InvalidInputFormatError,
+  InvalidOutputFormatError,
+  NotMatchExtensionAndInputError,
+  NotMatchExtensionAndOutputError
+} from '../common/exceptions.ts';
+import { FormatSniffer } from '../utils/formatSniffer.ts';
+import { FormatRegistry } from '../utils/formatRegistry.ts';
 
 /**
  * Input specification for a conversion workflow.
  *
  * @property source - A `Readable` object providing access to the input file stream.
+ *                    Not available for conversions resumed from a saved state.
  * @property format - Optional string specifying the input file format. If omitted,
  *                    the format may be inferred automatically.
+ * @property detected - Whether the format was detected from the file content.
+ * @property size - Size of the input in bytes, once known.
  */
 interface InputSpec {
-  source: Readable;
+  source?: Readable;
   format?: string;
+  detected?: boolean;
+  size?: number;
 }
 
 /**
@@ -41,6 +85,133 @@ interface OutputSpec {
   format: string;
 }
 
+/**
+ * Options for creating a `Converter`.
+ *
+ * @property catalog - Optional `FormatCatalog` used for preflight
+ *                     validation. If not provided, the converter
+ *                     creates one backed by its own client.
+ * @property budget - Optional `CreditBudget` that caps the vCredits the
+ *                    converter's conversions may spend.
+ * @property ledger - Optional `UsageLedger` that records every conversion
+ *                    the converter runs.
+ */
+export interface ConverterOptions extends InterfaceOptions {
+  catalog?: FormatCatalog;
+  budget?: CreditBudget;
+  ledger?: UsageLedger;
+}
+
+/**
+ * Strategy used to run a conversion.
+ *
+ * - `'async'`: start the conversion and poll until it completes.
+ * - `'sync'`: wait for the result in the convert request itself.
+ * - `'auto'`: use `'sync'` for small inputs and `'async'` otherwise.
+ */
+export type ConversionMode = 'sync' | 'async' | 'auto';
+
+/**
+ * Options for a conversion started by `Converter.convert`.
+ *
+ * @property signal - Optional `AbortSignal` that cancels the conversion.
+ *                    It is also used by `Conversion.wait` and
+ *                    `Conversion.download` unless they receive their own.
+ * @property callback - Optional URL the service notifies once the
+ *                      conversion is completed. Use it together with
+ *                      `Conversion.waitForCallback` instead of polling.
+ * @property mode - Optional conversion strategy; defaults to the
+ *                  `conversionSettings.mode` configuration value.
+ * @property parameters - Optional converter settings, as a record or a
+ *                        typed builder such as `ImageOptions`.
+ * @property preflight - Whether to validate the input and the format pair
+ *                       before uploading; defaults to the
+ *                       `conversionSettings.preflight` configuration value,
+ *                       which is off. Checking a format pair may cost a
+ *                       `/convert/formats` request.
+ * @property detectFormat - Whether to detect the input format from the file
+ *                          content when it is not given; defaults to the
+ *                          `conversionSettings.detectInputFormat` value.
+ * @property tag - Optional tag stored with the usage record of the
+ *                 conversion, such as the team it is charged to.
+ */
+export interface ConvertOptions {
+  signal?: AbortSignal;
+  callback?: string;
+  mode?: ConversionMode;
+  parameters?: ConversionParameters | ParameterBuilder;
+  preflight?: boolean;
+  detectFormat?: boolean;
+  tag?: string;
+}
+
+/**
+ * One output of `Converter.convertMany`.
+ *
+ * @property sink - Output stream for converted file data.
+ * @property format - Desired output format[-type] string. May be omitted
+ *                    when the sink is a `PathWritable` whose path has a
+ *                    registered extension.
+ * @property parameters - Optional converter settings for this output,
+ *                        replacing the shared `parameters` option.
+ */
+export interface ConversionTarget {
+  sink: Writable;
+  format?: string;
+  parameters?: ConversionParameters | ParameterBuilder;
+}
+
+/**
+ * Version of the saved conversion state format.
+ */
+const STATE_VERSION = 1;
+
+/**
+ * Saved state of a started conversion, as produced by `Conversion.toJSON()`.
+ *
+ * @property version - State format version.
+ * @property connector - Connector of the convert task.
+ * @property inputFormat - Input format[-type], if known.
+ * @property outputFormat - Output format[-type].
+ * @property inputSize - Input size in bytes, if known.
+ * @property completed - Whether the convert task was completed.
+ * @property status - Conversion status, once completed.
+ * @property vcredits - vCredits spent, once reported.
+ * @property callback - Callback URL the conversion was started with.
+ * @property tag - Tag of the conversion's usage record.
+ * @property startedAt - Time the conversion was started, in milliseconds
+ *                       since the epoch.
+ * @property recorded - Whether the conversion was recorded in a ledger.
+ */
+export interface ConversionState {
+  version: number;
+  connector: string;
+  inputFormat?: string;
+  outputFormat: string;
+  inputSize?: number;
+  completed: boolean;
+  status?: string;
+  vcredits?: number;
+  callback?: string;
+  tag?: string;
+  startedAt: number;
+  recorded: boolean;
+}
+
+/**
+ * Converter-level services shared by its conversions.
+ *
+ * @property catalog - Format catalog used for preflight validation and
+ *                     cost estimates.
+ * @property budget - Optional vCredit budget the conversion must fit in.
+ * @property ledger - Optional ledger the conversion is recorded in.
+ */
+interface ConversionServices {
+  catalog?: FormatCatalog;
+  budget?: CreditBudget;
+  ledger?: UsageLedger;
+}
+
 /**
  * Conversion workflow controller.
  *
@@ -54,22 +225,45 @@ class Conversion {
   private convertConnector?: string;
   private convertStatus?: string;
   private credits?: number;
+  private taskCompleted: boolean = false;
+  private signal?: AbortSignal;
+  private callback?: string;
+  private mode?: ConversionMode;
+  private parameters: ConversionParameters;
+  private preflight?: Preflight;
+  private detectFormat: boolean;
+  private catalog: FormatCatalog;
+  private budget?: CreditBudget;
+  private reservation?: number;
+  private ledger?: UsageLedger;
+  private tag?: string;
+  private startedAt: number = Date.now();
+  private recorded: boolean = false;
 
   /**
    * Create a new Conversion workflow.
    *
    * @param client - API client instance for communication.
-   * @param readable - Input stream providing source file data.
+   * @param readable - Input stream providing source file data, or
+   *                   `undefined` for a conversion resumed from a saved state.
    * @param writable - Output stream for converted file data.
    * @param outputFormat - Desired output format[-type] string.
    * @param inputFormat - Optional input format[-type] string.
+   * @param options - Optional conversion options such as an abort signal,
+   *                  a callback URL, the conversion mode, or parameters.
+   * @param services - Optional catalog, budget and ledger of the converter.
+   * @throws InvalidParameterError - If a conversion parameter name is invalid.
+   * @throws WrongTypeParameterError - If a conversion parameter value has
+   *                                   the wrong type.
    */
   constructor(
     client: API,
-    readable: Readable,
+    readable: Readable | undefined,
     writable: Writable,
     outputFormat: string,
-    inputFormat?: string
+    inputFormat?: string,
+    options: ConvertOptions = {},
+    services: ConversionServices = {}
   ) {
     this.input = {
       source: readable,
@@ -80,6 +274,72 @@ class Conversion {
       format: canonicalizeFormat(outputFormat) as string,
     };
     this.client = client;
+    this.catalog = services.catalog ?? new FormatCatalog(client);
+    this.budget = services.budget;
+    this.ledger = services.ledger;
+    this.tag = options.tag;
+    this.signal = options.signal;
+    this.callback = options.callback;
+    this.mode = options.mode;
+    this.parameters = options.parameters instanceof ParameterBuilder
+      ? options.parameters.build()
+      : validateConversionParameters({ ...options.parameters });
+
+    this.detectFormat =
+      options.detectFormat ?? Config.get('conversionSettings', 'detectInputFormat');
+
+    if (options.preflight ?? Config.get('conversionSettings', 'preflight')) {
+      this.preflight = new Preflight(this.catalog);
+    }
+  }
+
+  /**
+   * Rebuild a started conversion from its saved state.
+   *
+   * The conversion continues with `wait()` and `download()`; the upload
+   * and convert steps are not repeated.
+   *
+   * @param client - API client instance for communication.
+   * @param state - State saved with `toJSON()`.
+   * @param writable - Output stream for converted file data.
+   * @param options - Optional conversion options such as an abort signal.
+   * @param services - Optional catalog, budget and ledger of the converter.
+   * @returns The resumed conversion.
+   * @throws Error - If the state is malformed or has an unsupported version.
+   */
+  static fromState(
+    client: API,
+    state: ConversionState,
+    writable: Writable,
+    options: ConvertOptions = {},
+    services: ConversionServices = {}
+  ): Conversion {
+    if (state?.version !== STATE_VERSION) {
+      throw new Error(`Unsupported conversion state version: ${state?.version}.`);
+    }
+    if (typeof state.connector !== 'string' || !state.connector) {
+      throw new Error('The conversion state has no convert connector.');
+    }
+
+    const conversion = new Conversion(
+      client,
+      undefined,
+      writable,
+      resolveOutputFormat(writable, state.outputFormat),
+      state.inputFormat,
+      { ...options, callback: state.callback, tag: options.tag ?? state.tag },
+      services
+    );
+    conversion.input.size = state.inputSize;
+    conversion.convertConnector = state.connector;
+    // A completed conversion missing from the ledger fetches its status
+    // once more, which records it.
+    conversion.taskCompleted = state.completed && (state.recorded || !services.ledger);
+    conversion.convertStatus = state.status;
+    conversion.credits = state.vcredits;
+    conversion.startedAt = state.startedAt;
+    conversion.recorded = state.recorded;
+    return conversion;
   }
 
   /**
@@ -88,7 +348,8 @@ class Conversion {
    * @returns A promise that resolves when conversion has been started.
    */
   async init(): Promise<void> {
-    await this.startConversion();
+    await this.prepare();
+    await this.start(new UploadSession(this.client, this.input.source!, this.signal));
   }
 
   /**
@@ -96,36 +357,60 @@ class Conversion {
    *
    * @param pollIntervals - Array of polling intervals in seconds.
    * @param sleepFn - Function to pause execution for a given duration.
+   * @param signal - Optional `AbortSignal` that stops polling; defaults
+   *                 to the signal the conversion was started with.
    * @returns A promise that resolves when conversion is completed.
    * @throws Error - If pollIntervals contains invalid values.
+   * @throws ConversionAbortedError - If the signal is aborted.
    */
   async wait(
     pollIntervals: number[] = SLEEP_PATTERN,
-    sleepFn: (ms: number) => Promise<void> = ms => new Promise(res => setTimeout(res, ms))
+    sleepFn?: (ms: number) => Promise<void>,
+    signal: AbortSignal | undefined = this.signal
   ): Promise<void> {
-    let step = 0;
-    while (!(await this.done())) {
-      const interval = pollIntervals[step];
-
-      if (typeof interval === 'number') {
-        await sleepFn(interval * 1000);
-      } else {
-        throw new Error(`pollIntervals[${step}] is not a valid number: ${interval}`);
-      }
+    await poll(() => this.done(signal), pollIntervals, signal, sleepFn);
+  }
 
-      if (step < pollIntervals.length - 1) {
-        step++;
-      }
+  /**
+   * Wait until the callback of the conversion task is received.
+   *
+   * Unlike `wait`, this does not poll the API while waiting; it waits
+   * until the receiver gets the callback sent to the URL the conversion
+   * was started with. Callback payloads are not authenticated, so the
+   * task status is then read from the API instead of the payload. If
+   * the API does not report the task as completed, polling takes over.
+   *
+   * @param receiver - Receiver the callback URL delivers payloads to.
+   * @param signal - Optional `AbortSignal` that stops waiting; defaults
+   *                 to the signal the conversion was started with.
+   * @returns A promise that resolves when conversion is completed.
+   * @throws Error - If the conversion was started without a callback URL.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  async waitForCallback(
+    receiver: CallbackReceiver,
+    signal: AbortSignal | undefined = this.signal
+  ): Promise<void> {
+    if (!this.callback) {
+      throw new Error('The conversion was not started with a callback URL.');
     }
+
+    await receiver.waitFor(this.convertConnector!, signal);
+    await this.wait(undefined, undefined, signal);
   }
 
   /**
    * Check if the conversion task is done.
    *
+   * @param signal - Optional `AbortSignal` that cancels the status request.
    * @returns `true` if the task status is 'completed', otherwise `false`.
    */
-  async done(): Promise<boolean> {
-    const status = await this.getConvertTaskStatus();
+  async done(signal: AbortSignal | undefined = this.signal): Promise<boolean> {
+    if (this.taskCompleted) {
+      return true;
+    }
+
+    const status = await this.getConvertTaskStatus(signal);
     return status.task === 'completed';
   }
 
@@ -139,52 +424,343 @@ class Conversion {
   }
 
   /**
-   * Start the conversion process.
+   * Check the conversion before anything is uploaded.
+   *
+   * Called by `Converter` before the input is uploaded.
+   *
+   * Detects the input format if needed, runs the preflight checks,
+   * validates the parameters, and reserves the estimated cost. If the
+   * checks reject a detected format, the extension format is used.
+   *
+   * @returns A promise that resolves when the conversion can be started.
+   * @throws CreditBudgetExceededError - If the conversion does not fit in
+   *                                     the budget.
+   */
+  async prepare(): Promise<void> {
+    const source = this.input.source!;
+    this.startedAt = Date.now();
+    this.input.size = await source.size?.();
+
+    if (!this.input.format && this.detectFormat) {
+      this.input.format = await FormatSniffer.sniff(source);
+      this.input.detected = !!this.input.format;
+    }
+
+    try {
+      await this.preflight?.check(
+        source,
+        this.output.format,
+        this.input.format,
+        { signal: this.signal, matchExtension: !this.input.detected }
+      );
+    } catch (error) {
+      if (!this.rejectsDetectedFormat(error)) {
+        throw error;
+      }
+      // Check again with the format implied by the filename extension,
+      // as the service would be asked to after rejecting the detection.
+      this.input.format = getExtension(source.filename);
+      this.input.detected = false;
+      await this.preflight!.check(
+        source,
+        this.output.format,
+        this.input.format,
+        { signal: this.signal }
+      );
+    }
+    await this.checkParameters();
+
+    if (this.budget) {
+      this.reservation = this.budget.reserve(await this.estimateCost());
+    }
+  }
+
+  /**
+   * Start the conversion of a prepared input.
    *
+   * Called by `Converter` after `prepare()`.
+   *
+   * @param upload - Upload of the input, possibly shared with other
+   *                 conversions.
    * @returns A promise that resolves when the conversion process has started.
    * @throws EntityStatusNotRunningError - If the conversion task is not running.
    */
-  private async startConversion(): Promise<void> {
-    const uploadResp = await this.client.uploadFile(this.input.source);
-    const uploadConnector = uploadResp.result.output.connector;
+  async start(upload: UploadSession): Promise<void> {
+    try {
+      await this.submit(upload);
+    } catch (error) {
+      this.releaseReservation();
+      await this.recordUsage('failed', {
+        errorCode: error instanceof APIException && error.code
+          ? error.code
+          : (error as Error)?.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Give up a prepared conversion that will not be started, releasing
+   * its budget reservation.
+   *
+   * @returns Void.
+   */
+  abandon(): void {
+    this.releaseReservation();
+  }
+
+  /**
+   * Request the conversion of the uploaded input.
+   *
+   * @param upload - Upload of the input.
+   * @returns A promise that resolves when the conversion has been requested.
+   * @throws EntityStatusNotRunningError - If the conversion task is not running.
+   */
+  private async submit(upload: UploadSession): Promise<void> {
+    let uploadConnector = await upload.connector();
+
+    let convertResp: ConvertFileResponse;
+    try {
+      convertResp = await this.requestConversion(uploadConnector);
+    } catch (error) {
+      if (UploadSession.isExpired(error)) {
+        // The uploaded file expired before it was converted.
+        uploadConnector = await upload.refresh(uploadConnector);
+      } else if (this.rejectsDetectedFormat(error)) {
+        // Retry once with the format implied by the filename extension,
+        // reusing the uploaded file.
+        this.input.format = getExtension(this.input.source?.filename);
+        this.input.detected = false;
+      } else {
+        throw error;
+      }
+      convertResp = await this.requestConversion(uploadConnector);
+    }
+
+    this.convertConnector = convertResp.entity.id;
+
+    if (convertResp.entity.status === 'completed' && convertResp.result?.output.status) {
+      await this.applyTaskOutput({
+        entity: convertResp.entity,
+        result: convertResp.result as ConversionResult,
+      });
+    } else if (convertResp.entity.status !== 'running') {
+      throw new EntityStatusNotRunningError();
+    }
+  }
+
+  /**
+   * Estimate the cost of the conversion with `/convert/graph`.
+   *
+   * @returns The estimated vCredits, or `undefined` if the input format
+   *          is unknown or the cost is not reported.
+   */
+  private async estimateCost(): Promise<number | undefined> {
+    const input = this.input.format ?? getExtension(this.input.source?.filename);
+    if (!input) {
+      return undefined;
+    }
+    const graph = await this.catalog.graph(
+      input,
+      this.output.format,
+      { signal: this.signal }
+    );
+    return graph.vcredits;
+  }
+
+  /**
+   * Release the budget reservation of the conversion, if any.
+   *
+   * @returns Void.
+   */
+  private releaseReservation(): void {
+    if (this.reservation !== undefined) {
+      this.budget?.release(this.reservation);
+      this.reservation = undefined;
+    }
+  }
 
-    const convertResp = await this.client.convertFile(
-      uploadConnector,
+  /**
+   * Request the conversion of an uploaded file.
+   *
+   * @param connector - Connector of the uploaded file.
+   * @returns The convert response.
+   */
+  private async requestConversion(connector: string): Promise<ConvertFileResponse> {
+    let convertResp: ConvertFileResponse | undefined;
+    if (await this.resolveMode() === InterfaceStrategyMode.SYNC) {
+      convertResp = await this.convertSync(connector);
+    }
+
+    return convertResp ?? await this.client.convertFile(
+      connector,
       this.output.format,
       this.input.format,
-      InterfaceStrategyMode.ASYNC
+      InterfaceStrategyMode.ASYNC,
+      { signal: this.signal, callback: this.callback, parameters: this.parameters }
     );
+  }
 
-    if (convertResp.entity.status !== 'running') {
-      throw new EntityStatusNotRunningError();
+  /**
+   * Check whether an error means the service or the preflight checks
+   * rejected a detected input format that differs from the filename
+   * extension.
+   *
+   * @param error - Error raised by the convert request or preflight.
+   * @returns `true` if the conversion should be retried with the
+   *          extension-derived format.
+   */
+  private rejectsDetectedFormat(error: unknown): boolean {
+    const rejected =
+      error instanceof FormatError || error instanceof NotMatchExtensionAndInputError;
+    const extension = getExtension(this.input.source?.filename);
+
+    return !!this.input.detected && rejected && extension !== this.input.format;
+  }
+
+  /**
+   * Check the conversion parameters against the output format.
+   *
+   * When parameters are set and `/format/get` reports the parameters the
+   * output format supports, unsupported ones are rejected before the
+   * input is uploaded.
+   *
+   * @returns A promise that resolves when the parameters are accepted.
+   * @throws InvalidParameterError - If a parameter is not supported.
+   */
+  private async checkParameters(): Promise<void> {
+    if (!Object.keys(this.parameters).length) {
+      return;
     }
 
-    this.convertConnector = convertResp.entity.id;
+    const response = await this.client.formatGet(this.output.format, { signal: this.signal });
+    const supported = response.result.output.parameters;
+    if (supported) {
+      validateConversionParameters(this.parameters, supported);
+    }
+  }
+
+  /**
+   * Request a synchronous conversion.
+   *
+   * The request is sent once, with the `syncTimeout` configuration value
+   * as its timeout. The caller falls back to an asynchronous conversion
+   * only if the request provably never reached the service, such as when
+   * the connection is refused. Once the request was sent, the service may
+   * already be converting and billing the file, so timeouts and gateway
+   * errors such as a 504 `HTTPResponseError` are raised instead of
+   * submitting the conversion a second time.
+   *
+   * @param connector - Connector of the uploaded file.
+   * @returns The convert response, or `undefined` if the request was
+   *          not delivered.
+   * @throws NetworkConnectionError - If the request was sent but no
+   *                                  response arrived in time.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  private async convertSync(connector: string): Promise<ConvertFileResponse | undefined> {
+    try {
+      return await this.client.convertFile(
+        connector,
+        this.output.format,
+        this.input.format,
+        InterfaceStrategyMode.SYNC,
+        {
+          signal: this.signal,
+          parameters: this.parameters,
+          timeout: Config.get('conversionSettings', 'syncTimeout'),
+          retryPolicy: new RetryPolicy({ maxAttempts: 1 }),
+        }
+      );
+    } catch (error) {
+      throwIfAborted(this.signal);
+      if (RetryPolicy.isUndelivered(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the conversion strategy to use.
+   *
+   * In 'auto' mode, inputs whose size is known and at most the
+   * `syncMaxSize` configuration value are converted synchronously.
+   * Conversions with a callback URL are always asynchronous.
+   *
+   * @returns The strategy mode sent to `/convert/file`.
+   */
+  private async resolveMode(): Promise<InterfaceStrategyMode> {
+    const mode: ConversionMode = this.mode ?? Config.get('conversionSettings', 'mode');
+
+    if (this.callback || mode === 'async') {
+      return InterfaceStrategyMode.ASYNC;
+    }
+    if (mode === 'sync') {
+      return InterfaceStrategyMode.SYNC;
+    }
+
+    const size = this.input.size;
+    return size !== undefined && size <= Config.get('conversionSettings', 'syncMaxSize')
+      ? InterfaceStrategyMode.SYNC
+      : InterfaceStrategyMode.ASYNC;
   }
 
   /**
    * Download the converted file.
    *
-   * @param useServerFilename - If `true`, use the filename provided by the server.
+   * @param useServerFilename - If `true`, use the filename provided by the server,
+   *                            with the extension of the output format.
+   * @param signal - Optional `AbortSignal` that cancels the download; defaults
+   *                 to the signal the conversion was started with.
    * @returns A promise that resolves when download is complete.
+   * @throws DownloadExpiredError - If the converted file is no longer
+   *                                available, for example when a saved
+   *                                conversion is resumed too late.
+   * @throws ConversionAbortedError - If the signal is aborted.
    */
-  async download(useServerFilename: boolean = false): Promise<void> {
-    const { connector, filename } = await this.getDownloadUrl();
+  async download(
+    useServerFilename: boolean = false,
+    signal: AbortSignal | undefined = this.signal
+  ): Promise<void> {
+    try {
+      const { connector, filename } = await this.getDownloadUrl(signal);
 
-    if (useServerFilename && 'path' in this.output.sink) {
-      (this.output.sink as PathWritable).path = filename;
-    }
+      if (useServerFilename && 'path' in this.output.sink) {
+        (this.output.sink as PathWritable).path =
+          FormatRegistry.filenameFor(filename, this.output.format);
+      }
 
-    await this.client.downloadUrlGet(this.output.sink, connector);
+      await this.client.downloadUrlGet(this.output.sink, connector, undefined, { signal });
+    } catch (error) {
+      if (error instanceof DownloadExpiredError) {
+        throw new DownloadExpiredError(
+          `The result of conversion ${this.convertConnector} has expired; ` +
+          'convert the input again to get a new one.',
+          {
+            code: error.code,
+            httpStatus: error.httpStatus,
+            endpoint: error.endpoint,
+            requestId: error.requestId,
+            response: error.response,
+            cause: error,
+          }
+        );
+      }
+      throw error;
+    }
   }
 
   /**
    * Retrieve the download URL for the converted file.
    *
+   * @param signal - Optional `AbortSignal` that cancels the request.
    * @returns Object containing connector ID and filename.
    */
-  private async getDownloadUrl(): Promise<{ connector: string; filename: string }> {
-    const response = await this.client.downloadUrl(this.convertConnector!);
+  private async getDownloadUrl(
+    signal?: AbortSignal
+  ): Promise<{ connector: string; filename: string }> {
+    const response = await this.client.downloadUrl(this.convertConnector!, { signal });
     return {
       connector: response.result.output.connector,
       filename: response.result.output.name,
@@ -194,30 +770,120 @@ class Conversion {
   /**
    * Retrieve the current status of the conversion task.
    *
+   * @param signal - Optional `AbortSignal` that cancels the request.
    * @returns Object containing task status, credits used, and conversion status.
    */
-  private async getConvertTaskStatus(): Promise<{
+  private async getConvertTaskStatus(signal?: AbortSignal): Promise<{
     task: string;
     credits?: number;
     convert?: string;
   }> {
-    const response = await this.client.taskResponse(this.convertConnector!);
-    const resultOutput = response.result.output;
+    const response = await this.client.taskResponse(this.convertConnector!, { signal });
+    return this.applyTaskOutput(response.result.output);
+  }
 
-    if (resultOutput.result) {
-      this.convertStatus = resultOutput.result.output.status;
-      this.credits = resultOutput.entity.vcredits;
+  /**
+   * Update the conversion state from a task response.
+   *
+   * @param output - Output of a task response or callback payload.
+   * @returns Object containing task status, credits used, and conversion status.
+   */
+  private async applyTaskOutput(output: TaskResponseOutput): Promise<{
+    task: string;
+    credits?: number;
+    convert?: string;
+  }> {
+    if (output.result) {
+      this.convertStatus = output.result.output.status;
+      this.credits = output.entity.vcredits;
     } else {
       this.convertStatus = undefined;
     }
+    this.taskCompleted = output.entity.status === 'completed';
+
+    if (this.taskCompleted) {
+      if (output.entity.vcredits !== undefined) {
+        this.budget?.record(output.entity.id, output.entity.vcredits);
+      }
+      this.releaseReservation();
+
+      const size = output.result?.output.size;
+      await this.recordUsage(this.convertStatus ?? 'failed', {
+        errorCode: output.result?.error?.code,
+        vcredits: output.entity.vcredits,
+        outputSize: typeof size === 'number' ? size : undefined,
+      });
+    }
 
     return {
-      task: resultOutput.entity.status,
+      task: output.entity.status,
       credits: this.credits,
       convert: this.convertStatus,
     };
   }
 
+  /**
+   * Append the usage record of the conversion to the ledger, once.
+   *
+   * A failure to append is reported to the ledger's `onError` handler
+   * and does not fail the conversion; the conversion stays unrecorded,
+   * so a conversion resumed from its saved state records it again.
+   *
+   * @param status - Final status of the conversion.
+   * @param details - Optional error code, vCredits and output size.
+   * @returns A promise that resolves once the record is handled.
+   */
+  private async recordUsage(
+    status: string,
+    details: { errorCode?: string; vcredits?: number; outputSize?: number } = {}
+  ): Promise<void> {
+    if (!this.ledger || this.recorded) {
+      return;
+    }
+
+    this.recorded = await this.ledger.tryRecord({
+      timestamp: new Date().toISOString(),
+      taskId: this.convertConnector,
+      tag: this.tag,
+      inputFormat: this.input.format ?? getExtension(this.input.source?.filename),
+      outputFormat: this.output.format,
+      inputSize: this.input.size,
+      outputSize: details.outputSize,
+      duration: Date.now() - this.startedAt,
+      vcredits: details.vcredits,
+      status,
+      errorCode: details.errorCode,
+    });
+  }
+
+  /**
+   * Save the state of the conversion so it can be resumed with
+   * `Converter.resume`, for example after a process restart.
+   *
+   * @returns A JSON-serializable state.
+   * @throws Error - If the conversion has not been started.
+   */
+  toJSON(): ConversionState {
+    if (!this.convertConnector) {
+      throw new Error('The conversion has not been started.');
+    }
+
+    return {
+      version: STATE_VERSION,
+      connector: this.convertConnector,
+      inputFormat: this.input.format ?? getExtension(this.input.source?.filename),
+      outputFormat: this.output.format,
+      inputSize: this.input.size,
+      completed: this.taskCompleted,
+      status: this.convertStatus,
+      vcredits: this.credits,
+      callback: this.callback,
+      tag: this.tag,
+      startedAt: this.startedAt,
+      recorded: this.recorded,
+    };
+  }
+
   /**
    * Get the number of credits used for the conversion.
    *
@@ -236,14 +902,242 @@ class Conversion {
  */
 export class Converter {
   private client: API;
+  private _catalog: FormatCatalog;
+  private _budget?: CreditBudget;
+  private _ledger?: UsageLedger;
 
   /**
    * Create a new Converter instance.
    *
    * @param credential - Optional `Credential` instance for authentication.
+   * @param options - Optional client options such as a retry policy,
+   *                  transport, interceptors, a format catalog, a budget,
+   *                  or a usage ledger.
+   */
+  constructor(credential?: Credential, options: ConverterOptions = {}) {
+    this.client = new API(credential, options);
+    this._catalog = options.catalog ?? new FormatCatalog(this.client);
+    this._budget = options.budget;
+    this._ledger = options.ledger;
+
+    if (this._budget) {
+      this.client.use(this._budget);
+    }
+  }
+
+  /**
+   * Format catalog used for preflight validation.
+   *
+   * @returns The converter's `FormatCatalog`.
+   */
+  get catalog(): FormatCatalog {
+    return this._catalog;
+  }
+
+  /**
+   * vCredit budget the converter's conversions must fit in.
+   *
+   * @returns The converter's `CreditBudget`, if any.
+   */
+  get budget(): CreditBudget | undefined {
+    return this._budget;
+  }
+
+  /**
+   * Ledger the converter's conversions are recorded in.
+   *
+   * @returns The converter's `UsageLedger`, if any.
    */
-  constructor(credential?: Credential) {
-    this.client = new API(credential);
+  get ledger(): UsageLedger | undefined {
+    return this._ledger;
+  }
+
+  /**
+   * Validate a conversion without starting it.
+   *
+   * Runs the same preflight checks as `convert` does when preflight is
+   * enabled, so it can be used to validate user input, such as a form,
+   * before uploading anything.
+   *
+   * @param readable - Input to convert.
+   * @param outputFormat - Desired output format[-type] string.
+   * @param inputFormat - Optional input format[-type] string.
+   * @param options - Optional request options such as an abort signal.
+   * @returns A promise that resolves if the conversion looks valid.
+   * @throws InputNotFoundError - If the input does not exist.
+   * @throws InputFileError - If the input is empty, too large, or its
+   *                          extension contradicts the input format.
+   * @throws FormatError - If the format pair is not supported.
+   */
+  async validate(
+    readable: Readable,
+    outputFormat: string,
+    inputFormat?: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await new Preflight(this._catalog).check(readable, outputFormat, inputFormat, options);
+  }
+
+  /**
+   * Explain how a conversion would be performed, without starting it.
+   *
+   * Plans for different candidate outputs can be compared with
+   * `ConversionPlan.compare` to see which one is cheaper.
+   *
+   * @param input - Input format[-type] string, or a `Readable` whose
+   *                filename extension determines the input format.
+   * @param outputFormat - Desired output format[-type] string.
+   * @param options - Optional request options such as an abort signal.
+   * @returns The conversion plan reported by `/convert/graph`.
+   * @throws InvalidInputFormatError - If the input format cannot be determined.
+   */
+  async plan(
+    input: Readable | string,
+    outputFormat: string,
+    options: RequestOptions = {}
+  ): Promise<ConversionPlan> {
+    const inputFormat = typeof input === 'string'
+      ? canonicalizeFormat(input)
+      : getExtension(input.filename);
+    if (!inputFormat) {
+      throw new InvalidInputFormatError(
+        'Cannot determine the input format; pass it explicitly.',
+        { code: 'INVALID_INPUT_FORMAT' }
+      );
+    }
+
+    const output = canonicalizeFormat(outputFormat) as string;
+    const response = await this.client.convertGraph(inputFormat, output, options);
+    return ConversionPlan.fromGraph(inputFormat, output, response);
+  }
+
+  /**
+   * Convert one input to several outputs with a single upload.
+   *
+   * All targets are checked before the input is uploaded. The upload
+   * connector is then reused for each conversion, and the input is
+   * uploaded again if the connector expires in between. Unless a
+   * callback URL is given, the conversions are polled together until all
+   * of them are completed; download each result with `download()`.
+   *
+   * If a conversion fails to start, the remaining targets are not started
+   * and a `ConversionBatchError` is raised right away. A conversion whose
+   * status cannot be read stops being polled while the others are polled
+   * on, and the error is raised once they are completed. Either way, the
+   * `conversions` of the error are the conversions that were started, so
+   * they can still be waited for and downloaded.
+   *
+   * @param readable - Input stream providing source file data. It must be
+   *                   possible to open it again for a re-upload.
+   * @param targets - Outputs to convert the input to.
+   * @param inputFormat - Optional input format[-type] string.
+   * @param options - Optional conversion options shared by all targets.
+   * @returns One `Conversion` per target, in the order of the targets.
+   * @throws InvalidOutputFormatError - If a target format is omitted and
+   *                                    cannot be inferred from its path.
+   * @throws CreditBudgetExceededError - If the conversions do not fit in
+   *                                     the converter's budget.
+   * @throws ConversionBatchError - If a conversion fails to start, or its
+   *                                status cannot be read.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  async convertMany(
+    readable: Readable,
+    targets: ConversionTarget[],
+    inputFormat?: string,
+    options: ConvertOptions = {}
+  ): Promise<Conversion[]> {
+    const conversions = targets.map(target => new Conversion(
+      this.client,
+      readable,
+      target.sink,
+      resolveOutputFormat(target.sink, target.format),
+      inputFormat,
+      { ...options, parameters: target.parameters ?? options.parameters },
+      { catalog: this._catalog, budget: this._budget, ledger: this._ledger }
+    ));
+
+    const prepared: Conversion[] = [];
+    try {
+      for (const conversion of conversions) {
+        await conversion.prepare();
+        prepared.push(conversion);
+      }
+    } catch (error) {
+      prepared.forEach(conversion => conversion.abandon());
+      throw error;
+    }
+
+    const upload = new UploadSession(this.client, readable, options.signal);
+    for (const [index, conversion] of conversions.entries()) {
+      try {
+        await conversion.start(upload);
+      } catch (error) {
+        conversions.slice(index + 1).forEach(pending => pending.abandon());
+        throw batchError(conversions.slice(0, index), index, targets.length, 'failed to start', error);
+      }
+    }
+
+    if (!options.callback) {
+      const failures = await waitAll(conversions, options.signal);
+      if (failures.size) {
+        const index = Math.min(...failures.keys());
+        throw batchError(conversions, index, targets.length, 'failed', failures.get(index));
+      }
+    }
+    return conversions;
+  }
+
+  /**
+   * Start building a multi-step conversion.
+   *
+   * Add steps with `Pipeline.to()` and start it with `Pipeline.run()`.
+   * Each step converts the result of the previous one on the server, so
+   * only the result of the last step is downloaded.
+   *
+   * @param readable - Input of the first step.
+   * @param inputFormat - Optional input format[-type] string.
+   * @returns A new `Pipeline` using the converter's client, catalog,
+   *          budget and ledger.
+   */
+  pipeline(readable: Readable, inputFormat?: string): Pipeline {
+    return new Pipeline(
+      this.client,
+      readable,
+      inputFormat,
+      { catalog: this._catalog, budget: this._budget, ledger: this._ledger }
+    );
+  }
+
+  /**
+   * Resume a conversion from the state saved with `Conversion.toJSON()`.
+   *
+   * The upload and convert steps are skipped; continue with `wait()`
+   * and `download()` as with a new conversion. If the result has expired
+   * in the meantime, `download()` raises `DownloadExpiredError`.
+   *
+   * @param state - The saved conversion state.
+   * @param writable - Output stream for converted file data.
+   * @param options - Optional conversion options such as an abort signal.
+   *                  The callback URL and tag are taken from the state
+   *                  unless a tag is given.
+   * @returns The resumed `Conversion`.
+   * @throws Error - If the state is malformed or has an unsupported version.
+   * @throws NotMatchExtensionAndOutputError - If the output path extension
+   *                                           contradicts the saved format.
+   */
+  resume(
+    state: ConversionState,
+    writable: Writable,
+    options: Pick<ConvertOptions, 'signal' | 'tag'> = {}
+  ): Conversion {
+    return Conversion.fromState(
+      this.client,
+      state,
+      writable,
+      options,
+      { catalog: this._catalog, budget: this._budget, ledger: this._ledger }
+    );
   }
 
   /**
@@ -251,25 +1145,151 @@ export class Converter {
    *
    * @param readable - Input stream providing source file data.
    * @param writable - Output stream for converted file data.
-   * @param outputFormat - Desired output format[-type] string.
+   * @param outputFormat - Desired output format[-type] string. May be omitted
+   *                       when the writable is a `PathWritable` whose path has
+   *                       a registered extension.
    * @param inputFormat - Optional input format[-type] string.
+   * @param options - Optional conversion options such as an abort signal,
+   *                  a callback URL, the conversion mode, or parameters.
    * @returns A `Conversion` instance representing the workflow.
+   * @throws InvalidOutputFormatError - If the output format is omitted and
+   *                                    cannot be inferred from the output path.
+   * @throws NotMatchExtensionAndOutputError - If the output path extension
+   *                                           contradicts the output format.
+   * @throws CreditBudgetExceededError - If the conversion does not fit in
+   *                                     the converter's budget.
+   * @throws ConversionAbortedError - If the signal is aborted.
    */
   async convert(
     readable: Readable,
     writable: Writable,
-    outputFormat: string,
-    inputFormat?: string
+    outputFormat?: string,
+    inputFormat?: string,
+    options: ConvertOptions = {}
   ): Promise<Conversion> {
     const conversion = new Conversion(
       this.client,
       readable,
       writable,
-      outputFormat,
-      inputFormat
+      resolveOutputFormat(writable, outputFormat),
+      inputFormat,
+      options,
+      { catalog: this._catalog, budget: this._budget, ledger: this._ledger }
     );
 
     await conversion.init()
     return conversion;
   }
 }
+
+/**
+ * Resolve the output format of a conversion from the explicit format
+ * and the extension of the output path.
+ *
+ * The explicit format may carry a type, such as "svg-inkscape"; only its
+ * base format is compared with the extension. Extensions that are not
+ * registered in the `FormatRegistry` are not checked.
+ *
+ * @param writable - Output of the conversion.
+ * @param outputFormat - Optional explicit output format[-type] string.
+ * @returns The output format[-type] string.
+ * @throws InvalidOutputFormatError - If no format is given and none can be
+ *                                    inferred from the output path.
+ * @throws NotMatchExtensionAndOutputError - If the output path extension
+ *                                           contradicts the explicit format.
+ */
+function resolveOutputFormat(writable: Writable, outputFormat?: string): string {
+  const extension = 'path' in writable
+    ? getExtension(String((writable as PathWritable).path))
+    : undefined;
+  const inferred = extension && FormatRegistry.formatForExtension(extension);
+  const declared = canonicalizeFormat(outputFormat);
+
+  if (!declared) {
+    if (!inferred) {
+      throw new InvalidOutputFormatError(
+        'Cannot infer the output format from the output path; pass it explicitly.',
+        { code: 'INVALID_OUTPUT_FORMAT' }
+      );
+    }
+    return inferred;
+  }
+
+  const base = declared.split('-')[0]!;
+  if (inferred && (FormatRegistry.formatForExtension(base) ?? base) !== inferred) {
+    throw new NotMatchExtensionAndOutputError(
+      `The .${extension} extension of the output path does not match ` +
+      `the ${declared} output format.`
+    );
+  }
+  return declared;
+}
+
+/**
+ * Poll several conversions together until all of them are completed.
+ *
+ * A conversion whose status cannot be read stops being polled, so a
+ * failure of one conversion does not stop waiting for the others.
+ *
+ * @param conversions - The conversions to wait for.
+ * @param signal - Optional `AbortSignal` that stops polling.
+ * @returns The errors of the conversions that failed, by index.
+ * @throws ConversionAbortedError - If the signal is aborted.
+ */
+async function waitAll(
+  conversions: Conversion[],
+  signal?: AbortSignal
+): Promise<Map<number, unknown>> {
+  const failures = new Map<number, unknown>();
+  let pending = [...conversions.keys()];
+
+  await poll(async () => {
+    const done = await Promise.all(pending.map(async index => {
+      try {
+        return await conversions[index]!.done(signal);
+      } catch (error) {
+        throwIfAborted(signal);
+        failures.set(index, error);
+        return true;
+      }
+    }));
+    pending = pending.filter((_, position) => !done[position]);
+    return !pending.length;
+  }, SLEEP_PATTERN, signal);
+
+  return failures;
+}
+
+/**
+ * Build the error raised when a conversion of a batch fails.
+ *
+ * @param conversions - The conversions that were started.
+ * @param target - Zero-based index of the target that failed.
+ * @param count - Number of targets in the batch.
+ * @param action - What failed, such as "failed to start".
+ * @param error - The error that made the conversion fail.
+ * @returns A `ConversionBatchError` wrapping the error, or the error
+ *          itself if it is a `ConversionAbortedError`.
+ */
+function batchError(
+  conversions: Conversion[],
+  target: number,
+  count: number,
+  action: string,
+  error: unknown
+): Error {
+  if (error instanceof ConversionAbortedError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ConversionBatchError(
+    `Target ${target + 1} of ${count} ${action}: ${message}`,
+    {
+      target,
+      code: error instanceof APIException ? error.code : undefined,
+      cause: error,
+    },
+    conversions
+  );
+}
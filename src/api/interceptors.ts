@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Request and response interceptors for Vertopal API requests.
+//   Interceptors form an ordered middleware chain that can modify
+//   outgoing requests, inspect or replace parsed responses before
+//   errors are raised, and observe or replace request failures.
+
+import type { TransportRequest, TransportResponse } from './transport.ts';
+
+/**
+ * Context shared with every interceptor hook.
+ *
+ * @property endpoint - API endpoint path of the request.
+ * @property method - HTTP method of the request.
+ * @property attempt - One-based number of the current attempt.
+ */
+export interface InterceptorContext {
+  endpoint: string;
+  method: 'GET' | 'POST';
+  attempt: number;
+}
+
+/**
+ * Context passed to `onResponse` hooks.
+ *
+ * @property response - The raw transport response.
+ */
+export interface ResponseContext extends InterceptorContext {
+  response: TransportResponse;
+}
+
+/**
+ * Context passed to `onError` hooks.
+ *
+ * @property response - The raw transport response, if one was received.
+ */
+export interface ErrorContext extends InterceptorContext {
+  response?: TransportResponse;
+}
+
+/**
+ * A set of optional hooks invoked around each request attempt.
+ *
+ * Hooks may be synchronous or return a promise.
+ */
+export interface Interceptor {
+  /**
+   * Called before the request is sent. May mutate the request or
+   * return a replacement.
+   */
+  onRequest?(
+    request: TransportRequest,
+    context: InterceptorContext
+  ): TransportRequest | void | Promise<TransportRequest | void>;
+
+  /**
+   * Called with the parsed JSON body (or the raw response for non-JSON
+   * responses) before API errors are raised. May return a replacement.
+   */
+  onResponse?(
+    data: unknown,
+    context: ResponseContext
+  ): unknown | Promise<unknown>;
+
+  /**
+   * Called when an attempt fails, before the retry decision is made.
+   * May return a replacement error.
+   */
+  onError?(
+    error: Error,
+    context: ErrorContext
+  ): Error | void | Promise<Error | void>;
+}
+
+/**
+ * Ordered chain of interceptors.
+ *
+ * Hooks run in the order the interceptors were added. The value
+ * returned by each hook, if any, is passed on to the next one.
+ */
+export class InterceptorChain {
+  private readonly interceptors: Interceptor[];
+
+  /**
+   * Create a new InterceptorChain.
+   *
+   * @param interceptors - Interceptors in the order they should run.
+   */
+  constructor(interceptors: Interceptor[] = []) {
+    this.interceptors = interceptors;
+  }
+
+  /**
+   * Run all `onRequest` hooks.
+   *
+   * @param request - The outgoing request.
+   * @param context - Context of the current attempt.
+   * @returns The request to send.
+   */
+  async runRequest(
+    request: TransportRequest,
+    context: InterceptorContext
+  ): Promise<TransportRequest> {
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onRequest) {
+        request = (await interceptor.onRequest(request, context)) ?? request;
+      }
+    }
+    return request;
+  }
+
+  /**
+   * Run all `onResponse` hooks.
+   *
+   * @param data - Parsed JSON body or raw response.
+   * @param context - Context of the current attempt.
+   * @returns The response data to continue with.
+   */
+  async runResponse(data: unknown, context: ResponseContext): Promise<unknown> {
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onResponse) {
+        data = (await interceptor.onResponse(data, context)) ?? data;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Run all `onError` hooks.
+   *
+   * @param error - The error raised by the attempt.
+   * @param context - Context of the current attempt.
+   * @returns The error to continue with.
+   */
+  async runError(error: Error, context: ErrorContext): Promise<Error> {
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onError) {
+        error = (await interceptor.onError(error, context)) ?? error;
+      }
+    }
+    return error;
+  }
+}
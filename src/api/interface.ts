@@ -7,22 +7,77 @@
 // Description:
 //   Internal API interface for managing Vertopal service requests,
 //   including request construction, authentication, retries,
-//   file uploads, and consistent HTTP session handling using native fetch.
+//   streamed file uploads, and consistent HTTP session handling through
+//   a pluggable transport (native fetch by default).
 
 import { Credential } from './credential.ts';
 import * as settings from '../config/settings.ts';
 import { Config } from '../config/config.ts';
+import { RetryPolicy } from './retry.ts';
+import { InterceptorChain, type Interceptor } from './interceptors.ts';
 import {
-  APIError,
+  FetchTransport,
+  type MultipartFile,
+  type Transport,
+  type TransportResponse
+} from './transport.ts';
+import {
+  APIException,
+  HTTPResponseError,
   InvalidJSONResponseError,
   NetworkConnectionError,
+  type APIExceptionDetails,
 } from '../common/exceptions.ts';
 import { ExceptionHandler } from '../utils/exceptionHandler.ts';
 import {
   isNode,
+  sleep,
+  throwIfAborted,
   getLibraryVersion
 } from '../utils/misc.ts';
-import { StreamChunker } from '../utils/streamChunker.ts'
+
+/**
+ * Options for customizing an `Interface` instance.
+ *
+ * @property retryPolicy - Optional `RetryPolicy` for this client. If not
+ *                         provided, the policy from configuration is used.
+ * @property transport - Optional `Transport` for this client. If not
+ *                       provided, the transport from configuration or
+ *                       native fetch is used.
+ * @property interceptors - Optional interceptors for this client. They
+ *                          run after the global ones from configuration.
+ */
+export interface InterfaceOptions {
+  retryPolicy?: RetryPolicy;
+  transport?: Transport;
+  interceptors?: Interceptor[];
+}
+
+/**
+ * Endpoints that return binary content instead of JSON on success.
+ */
+const BINARY_ENDPOINTS = ['/download/url/get'];
+
+/**
+ * Maximum number of characters kept from an unexpected response body.
+ */
+const BODY_PREVIEW_LENGTH = 512;
+
+/**
+ * Per-request options accepted by `Interface` and `API` methods.
+ *
+ * @property signal - Optional `AbortSignal` that cancels the request,
+ *                    including any pending retry delays.
+ * @property timeout - Optional timeout in milliseconds that overrides the
+ *                     endpoint's default timeout for each attempt.
+ * @property retryPolicy - Optional `RetryPolicy` that overrides the
+ *                         client's policy for this request.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  retryPolicy?: RetryPolicy;
+}
 
 /**
  * Interface class for Vertopal API communication.
@@ -36,15 +91,23 @@ export class Interface {
   protected _credential: Credential;
   protected _version?: number;
   protected _userAgent: string;
+  protected _retryPolicy?: RetryPolicy;
+  protected _transport?: Transport;
+  protected _interceptors: Interceptor[];
 
   /**
    * Create a new Interface instance for Vertopal API communication.
    *
    * @param credential - Optional `Credential` object. If not provided,
    *                     credentials are loaded from configuration.
+   * @param options - Optional client options such as a retry policy,
+   *                  transport, or interceptors.
    */
-  constructor(credential?: Credential) {
+  constructor(credential?: Credential, options: InterfaceOptions = {}) {
     this._userAgent = settings.USER_AGENT_LIB;
+    this._retryPolicy = options.retryPolicy;
+    this._transport = options.transport;
+    this._interceptors = [...(options.interceptors ?? [])];
 
     this._credential =
       credential ??
@@ -57,14 +120,30 @@ export class Interface {
   /**
    * Send an API request with retry logic and JSON validation.
    *
+   * Failed attempts are retried according to the client's `RetryPolicy`,
+   * and every attempt is reported to the policy's `onAttempt` callback.
+   * Each attempt passes through the client's interceptor chain: parsed
+   * responses go through `onResponse` hooks before API errors are
+   * raised, and failures go through `onError` hooks before the retry
+   * decision is made.
+   *
    * @param path - API endpoint path (relative to base URL).
    * @param method - HTTP method to use ('GET' or 'POST').
    * @param fields - Key-value map of request fields; values may include
    *                 primitives or file-like objects with stream and metadata.
+   *                 A file may be given as a function returning it, which
+   *                 is called for every attempt so that a retry sends a
+   *                 freshly opened stream.
    * @param timeout - Optional timeout in milliseconds before the request is aborted.
    * @param version - Optional API version string to include in the request path.
-   * @returns Parsed JSON response if available, otherwise raw `Response` object.
+   * @param options - Optional per-request options such as an abort signal.
+   * @returns Parsed JSON response if available, otherwise raw `TransportResponse`.
+   * @throws ConversionAbortedError - If the request is aborted.
    * @throws InvalidJSONResponseError - If response body is not valid JSON.
+   * @throws APIError - If the API reports an error that is not retried,
+   *                    or keeps reporting a retryable one.
+   * @throws HTTPResponseError - If the HTTP status or content type of the
+   *                             response is unexpected for the endpoint.
    * @throws NetworkConnectionError - If all retry attempts fail.
    */
   async sendRequest(
@@ -72,36 +151,94 @@ export class Interface {
     method: 'GET' | 'POST' = 'POST',
     fields: Record<string, any> = {},
     timeout?: number,
-    version?: string
-  ): Promise<any> {
-    const retries = Config.get('connectionSettings', 'retries');
+    version?: string,
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    const policy = options.retryPolicy ?? this.retryPolicy;
+    const chain = new InterceptorChain(this.interceptors);
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const context = { endpoint: path, method, attempt };
+      let response: TransportResponse | undefined;
 
-    for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        const response = await this.request(path, method, fields, timeout, version);
+        throwIfAborted(options.signal);
+        response = await this.request(
+          path, method, fields, options.timeout ?? timeout, version, options, attempt
+        );
 
         const contentType = response.headers.get('Content-Type') || '';
-        if (contentType.includes('application/json')) {
-          const jsonResponse = await response.json();
-          ExceptionHandler.raiseForResponse(jsonResponse);
-          return jsonResponse;
+        const isJson = contentType.includes('application/json');
+        const responseDetails = {
+          endpoint: path,
+          httpStatus: response.status,
+          requestId: response.headers.get('X-Request-Id') ?? undefined,
+          attempt,
+        };
+
+        if (!isJson) {
+          await this._checkRawResponse(path, response, responseDetails);
         }
 
-        return response;
+        let data: unknown = isJson ? await response.json() : response;
+        data = await chain.runResponse(data, { ...context, response });
+        if (isJson) {
+          if (typeof data === 'object' && data !== null) {
+            ExceptionHandler.raiseForResponse(data as Record<string, unknown>, responseDetails);
+          }
+          this._checkJsonResponse(path, response, data, responseDetails);
+        }
+
+        policy.report({
+          attempt, maxAttempts: policy.maxAttempts, endpoint: path, willRetry: false,
+        });
+        return data;
       } catch (error: any) {
-        if (error instanceof APIError) {
-          throw error;
-        } else if (error instanceof SyntaxError) {
-          throw new InvalidJSONResponseError(error.message);
-        } else {
-          if (attempt < retries) {
-            await new Promise((res) => setTimeout(res, 2 ** attempt * 1000));
-          } else {
+        throwIfAborted(options.signal);
+
+        const details = {
+          endpoint: path,
+          httpStatus: response?.status,
+          requestId: response?.headers.get('X-Request-Id') ?? undefined,
+          attempt,
+          cause: error,
+        };
+        let failure: Error = error instanceof APIException
+          ? error
+          : error instanceof SyntaxError
+            ? new InvalidJSONResponseError(error.message, details)
+            : new NetworkConnectionError(error?.message, details);
+        failure = await chain.runError(failure, { ...context, response });
+
+        if (failure instanceof InvalidJSONResponseError) {
+          throw failure;
+        }
+
+        const willRetry = policy.shouldRetry(failure, attempt, path);
+        const delay = willRetry
+          ? policy.getDelay(attempt, response?.headers.get('Retry-After'))
+          : undefined;
+
+        policy.report({
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          endpoint: path,
+          error: failure,
+          willRetry,
+          delay,
+        });
+
+        if (!willRetry) {
+          if (failure instanceof NetworkConnectionError && !(error instanceof APIException)) {
             throw new NetworkConnectionError(
-              `All ${retries} retries failed! Error: ${error.message}`
+              `All ${attempt} retries failed! Error: ${failure.message}`,
+              details
             );
           }
+          throw failure;
         }
+
+        await sleep(delay!, options.signal);
       }
     }
 
@@ -114,10 +251,13 @@ export class Interface {
    * @param endpoint - API endpoint path (relative to base URL).
    * @param method - HTTP method to use ('GET' or 'POST').
    * @param fields - Key-value map of request fields; values may include
-   *                 primitives or file-like objects with stream and metadata.
+   *                 primitives, file-like objects with stream and metadata,
+   *                 or functions that return such a file.
    * @param timeout - Optional timeout in milliseconds before the request is aborted.
    * @param version - Optional API version string to include in the request path.
-   * @returns Raw `Response` object from the fetch call.
+   * @param options - Optional per-request options such as an abort signal.
+   * @param attempt - One-based attempt number reported to interceptors.
+   * @returns Raw `TransportResponse` returned by the client's transport.
    * @throws NetworkConnectionError - If request fails or times out.
    */
   async request(
@@ -125,8 +265,12 @@ export class Interface {
     method: 'GET' | 'POST',
     fields: Record<string, any>,
     timeout?: number,
-    version?: string
-  ): Promise<Response> {
+    version?: string,
+    options: RequestOptions = {},
+    attempt: number = 1
+  ): Promise<TransportResponse> {
+    throwIfAborted(options.signal);
+
     if (!endpoint.startsWith('/')) {
       endpoint = `/${endpoint}`;
     }
@@ -135,63 +279,173 @@ export class Interface {
       ? `${this.endpoint}/v${version}${endpoint}`
       : `${this.endpoint}${endpoint}`;
 
-    const timeoutMs = timeout ?? ['/upload/file', '/download/url/get'].includes(endpoint)
-      ? this.longTimeout
-      : this.defaultTimeout
+    const timeoutMs = timeout ?? (
+      ['/upload/file', '/download/url/get'].includes(endpoint)
+        ? this.longTimeout
+        : this.defaultTimeout
+    );
 
     const field = this.parseFieldParameters(fields, {
       '%app-id%': this._credential.app,
     });
+    const files: Record<string, MultipartFile> = {};
+    for (const [name, file] of Object.entries(field.file ?? {})) {
+      files[name] = typeof file === 'function' ? await file() : file;
+    }
 
-    let response: Response;
-
-    const formData = new FormData();
-    for (const [fieldName, value] of Object.entries(field.data || {})) {
-      formData.append(fieldName, value);
+    // The controller aborts on timeout. The request also follows the
+    // caller's signal, which stays linked so the response body can be
+    // cancelled as well. `AbortSignal.any` holds no listener on the
+    // caller's signal, so a long-lived signal can be reused freely.
+    const controller = new AbortController();
+    const timeoutTimer = setTimeout(() => controller.abort(), timeoutMs);
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, controller.signal])
+      : controller.signal;
+    const headers: Record<string, string> = await this._getHeaders();
+    try {
+      const request = await new InterceptorChain(this.interceptors).runRequest({
+        url,
+        method,
+        headers,
+        fields: field.data ?? {},
+        files,
+        signal,
+      }, { endpoint, method, attempt });
+
+      return await this.transport.send(request);
+    } finally {
+      clearTimeout(timeoutTimer);
     }
+  }
 
-    if (field.file) {
-      for (const [fieldName, file] of Object.entries(field.file)) {
-        const stream = file.stream;
-        const chunkSize = file.chunkSize;
-
-        // Collect chunks from the stream into memory.
-        // This ensures the entire file is buffered before creating a Blob.
-        let chunksCollector: Uint8Array[] = [];
-        const chunkedStream = new StreamChunker(stream, chunkSize, chunksCollector)
-        chunksCollector = await chunkedStream.process() as Uint8Array[]
-
-        // Merge all collected chunks into a single Uint8Array buffer.
-        const totalLength = chunksCollector.reduce((sum, arr) => sum + arr.length, 0);
-        const finalBuffer = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const chunk of chunksCollector) {
-          finalBuffer.set(chunk, offset);
-          offset += chunk.length;
-        }
+  /**
+   * Check a non-JSON response against the expectations of its endpoint.
+   *
+   * Only binary endpoints may return non-JSON content, and only with a
+   * successful status and a non-HTML content type.
+   *
+   * @param endpoint - API endpoint path of the request.
+   * @param response - The transport response.
+   * @param details - Request details attached to raised errors.
+   * @returns A promise that resolves if the response is acceptable.
+   * @throws HTTPResponseError - If the response is unexpected.
+   */
+  protected async _checkRawResponse(
+    endpoint: string,
+    response: TransportResponse,
+    details: APIExceptionDetails
+  ): Promise<void> {
+    const contentType = response.headers.get('Content-Type') || '';
+    const ok = response.status >= 200 && response.status < 300;
+
+    if (ok && BINARY_ENDPOINTS.includes(endpoint) && !contentType.includes('text/html')) {
+      return;
+    }
 
-        const blob = new Blob([finalBuffer], { type: file.contentType });
-        formData.append(fieldName, blob, file.filename);
+    throw new HTTPResponseError(
+      `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}: ` +
+      `unexpected ${contentType || 'untyped'} response from ${endpoint}.`,
+      {
+        ...details,
+        headers: this._getResponseHeaders(response),
+        bodyPreview: await this._readBodyPreview(response),
       }
+    );
+  }
+
+  /**
+   * Check a JSON response that carries no API error against the
+   * expectations of its endpoint.
+   *
+   * @param endpoint - API endpoint path of the request.
+   * @param response - The transport response.
+   * @param data - The parsed JSON body.
+   * @param details - Request details attached to raised errors.
+   * @returns Void.
+   * @throws HTTPResponseError - If the status is not successful, or the
+   *                             endpoint was expected to return binary content.
+   */
+  protected _checkJsonResponse(
+    endpoint: string,
+    response: TransportResponse,
+    data: unknown,
+    details: APIExceptionDetails
+  ): void {
+    const ok = response.status >= 200 && response.status < 300;
+    if (ok && !BINARY_ENDPOINTS.includes(endpoint)) {
+      return;
     }
 
-    const controller = new AbortController();
-    const timeoutTimer = setTimeout(() => controller.abort(), timeoutMs);
-    const headers: Record<string, string> = await this._getHeaders();
+    const reason = ok
+      ? `expected binary content from ${endpoint}, got JSON.`
+      : `unexpected response from ${endpoint}.`;
+    throw new HTTPResponseError(`HTTP ${response.status}: ${reason}`, {
+      ...details,
+      response: data,
+      headers: this._getResponseHeaders(response),
+      bodyPreview: JSON.stringify(data).slice(0, BODY_PREVIEW_LENGTH),
+    });
+  }
+
+  /**
+   * Collect response headers into a plain object.
+   *
+   * @param response - The transport response.
+   * @returns A key-value map of header names and values.
+   */
+  protected _getResponseHeaders(response: TransportResponse): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return headers;
+  }
+
+  /**
+   * Read the beginning of a response body as text.
+   *
+   * Reading stops once the preview length is reached, and the rest of
+   * the body is discarded.
+   *
+   * @param response - The transport response.
+   * @returns A truncated text preview of the body.
+   */
+  protected async _readBodyPreview(response: TransportResponse): Promise<string> {
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let preview = '';
     try {
-      response = await fetch(url, {
-        method: method,
-        headers: {
-          ...headers,
-        },
-        signal: controller.signal,
-        body: formData
-      });
-
-      return response;
+      while (preview.length < BODY_PREVIEW_LENGTH) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        preview += decoder.decode(value, { stream: true });
+      }
+    } catch {
+      // A partial preview is good enough when the body cannot be read.
     } finally {
-      clearTimeout(timeoutTimer);
+      reader.cancel().catch(() => undefined);
     }
+
+    return preview.length > BODY_PREVIEW_LENGTH
+      ? `${preview.slice(0, BODY_PREVIEW_LENGTH)}...`
+      : preview;
+  }
+
+  /**
+   * Register an interceptor on this client.
+   *
+   * Interceptors run in registration order, after the global ones
+   * from configuration.
+   *
+   * @param interceptor - The interceptor to add.
+   * @returns This client, for chaining.
+   */
+  use(interceptor: Interceptor): this {
+    this._interceptors.push(interceptor);
+    return this;
   }
 
   /**
@@ -310,6 +564,67 @@ export class Interface {
     return Config.get('connectionSettings', 'longTimeout');
   }
 
+  /**
+   * Retry policy applied to requests sent by this client.
+   *
+   * @returns The client's own `RetryPolicy` if set, otherwise the one
+   *          from configuration, or a policy built from the retry settings.
+   */
+  get retryPolicy(): RetryPolicy {
+    return (
+      this._retryPolicy ??
+      Config.get('connectionSettings', 'retryPolicy') ??
+      new RetryPolicy()
+    );
+  }
+
+  /**
+   * Set the retry policy for this client.
+   *
+   * @param value - The `RetryPolicy` to use, or `undefined` to fall back
+   *                to configuration.
+   */
+  set retryPolicy(value: RetryPolicy | undefined) {
+    this._retryPolicy = value;
+  }
+
+  /**
+   * Transport used to deliver requests sent by this client.
+   *
+   * @returns The client's own `Transport` if set, otherwise the one
+   *          from configuration, or a native fetch transport.
+   */
+  get transport(): Transport {
+    return (
+      this._transport ??
+      Config.get('connectionSettings', 'transport') ??
+      new FetchTransport()
+    );
+  }
+
+  /**
+   * Set the transport for this client.
+   *
+   * @param value - The `Transport` to use, or `undefined` to fall back
+   *                to configuration.
+   */
+  set transport(value: Transport | undefined) {
+    this._transport = value;
+  }
+
+  /**
+   * Interceptors applied to requests sent by this client.
+   *
+   * @returns The global interceptors from configuration followed by
+   *          the ones registered on this client.
+   */
+  get interceptors(): Interceptor[] {
+    return [
+      ...(Config.get('hooks', 'interceptors') ?? []),
+      ...this._interceptors,
+    ];
+  }
+
   /**
    * API version number currently in use.
    *
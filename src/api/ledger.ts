@@ -0,0 +1,465 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Persistent usage ledger for conversions. A `UsageLedger` appends one
+//   record per conversion to a pluggable store, a JSON Lines file by
+//   default, and reports totals per day, tag or format pair, with CSV
+//   export for charging credits back to teams.
+
+import { Config } from '../config/config.ts';
+
+/**
+ * Usage record of a single conversion.
+ *
+ * @property timestamp - ISO 8601 time the conversion finished.
+ * @property taskId - Optional ID of the convert task.
+ * @property tag - Optional caller-supplied tag, such as a team name.
+ * @property inputFormat - Input format[-type], if known.
+ * @property outputFormat - Output format[-type].
+ * @property inputSize - Input size in bytes, if known.
+ * @property outputSize - Output size in bytes, if reported.
+ * @property duration - Time in milliseconds from start to finish.
+ * @property vcredits - vCredits spent, if reported.
+ * @property status - Final status, such as "successful" or "failed".
+ * @property errorCode - API error code or exception name of a failure.
+ */
+export interface UsageRecord {
+  timestamp: string;
+  taskId?: string;
+  tag?: string;
+  inputFormat?: string;
+  outputFormat: string;
+  inputSize?: number;
+  outputSize?: number;
+  duration: number;
+  vcredits?: number;
+  status: string;
+  errorCode?: string;
+}
+
+/**
+ * Storage backend of a `UsageLedger`.
+ */
+export interface UsageStore {
+  /**
+   * Persist a record.
+   */
+  append(record: UsageRecord): Promise<void>;
+
+  /**
+   * Load all persisted records, oldest first.
+   */
+  read(): Promise<UsageRecord[]>;
+}
+
+/**
+ * Options for creating a `UsageLedger`.
+ *
+ * @property onError - Optional handler of records a `Converter` failed to
+ *                     append; without one, the failure is not reported.
+ *                     Failing to record never fails the conversion.
+ */
+export interface UsageLedgerOptions {
+  onError?: (error: unknown, record: UsageRecord) => void;
+}
+
+/**
+ * Filter for ledger queries. All set conditions must match.
+ *
+ * @property from - Earliest timestamp, inclusive.
+ * @property to - Latest timestamp, exclusive.
+ * @property tag - Tag of the records.
+ * @property inputFormat - Input format of the records.
+ * @property outputFormat - Output format of the records.
+ * @property status - Final status of the records.
+ */
+export interface UsageQuery {
+  from?: Date | string;
+  to?: Date | string;
+  tag?: string;
+  inputFormat?: string;
+  outputFormat?: string;
+  status?: string;
+}
+
+/**
+ * Dimension usage totals are grouped by.
+ *
+ * - `'day'`: the UTC date of the timestamp, as "YYYY-MM-DD".
+ * - `'tag'`: the tag, or an empty key for untagged records.
+ * - `'pair'`: the format pair, as "input>output".
+ */
+export type UsageGrouping = 'day' | 'tag' | 'pair';
+
+/**
+ * Usage totals of a group of records.
+ *
+ * @property key - Group key, such as "2025-01-31", a tag, or "docx>pdf".
+ * @property conversions - Number of conversions.
+ * @property successful - Number of successful conversions.
+ * @property failed - Number of conversions that did not succeed.
+ * @property vcredits - vCredits spent.
+ * @property inputBytes - Total input size in bytes.
+ * @property outputBytes - Total output size in bytes.
+ * @property duration - Total duration in milliseconds.
+ */
+export interface UsageSummary {
+  key: string;
+  conversions: number;
+  successful: number;
+  failed: number;
+  vcredits: number;
+  inputBytes: number;
+  outputBytes: number;
+  duration: number;
+}
+
+/**
+ * Columns of exported records, in order.
+ */
+const RECORD_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp', 'taskId', 'tag', 'inputFormat', 'outputFormat', 'inputSize',
+  'outputSize', 'duration', 'vcredits', 'status', 'errorCode',
+];
+
+/**
+ * Columns of exported summaries, in order.
+ */
+const SUMMARY_COLUMNS: (keyof UsageSummary)[] = [
+  'key', 'conversions', 'successful', 'failed', 'vcredits', 'inputBytes',
+  'outputBytes', 'duration',
+];
+
+/**
+ * Usage store keeping records in memory, for browsers and tests.
+ */
+export class MemoryUsageStore implements UsageStore {
+  private readonly records: UsageRecord[] = [];
+
+  /**
+   * Keep a record.
+   *
+   * @param record - The record.
+   * @returns A promise that resolves once the record is kept.
+   */
+  async append(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  /**
+   * Get all kept records.
+   *
+   * @returns Copies of the records, oldest first.
+   */
+  async read(): Promise<UsageRecord[]> {
+    return this.records.map(record => ({ ...record }));
+  }
+}
+
+/**
+ * Usage store appending records to a JSON Lines file.
+ *
+ * Each record is written as one JSON object per line. Lines that cannot
+ * be parsed, such as a line cut short by a crash, are skipped on read.
+ * Node.js only.
+ */
+export class JsonlUsageStore implements UsageStore {
+  private readonly _path: string;
+
+  /**
+   * Create a new JsonlUsageStore.
+   *
+   * @param path - Optional file path; defaults to the
+   *               `conversionSettings.ledgerPath` configuration value.
+   */
+  constructor(path?: string) {
+    this._path = path ?? Config.get('conversionSettings', 'ledgerPath');
+  }
+
+  /**
+   * Get the path of the ledger file.
+   *
+   * @returns The file path.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * Append a record to the file, creating it if needed.
+   *
+   * @param record - The record.
+   * @returns A promise that resolves once the record is written.
+   */
+  async append(record: UsageRecord): Promise<void> {
+    const fs = await loadFs();
+    await fs.appendFile(this._path, JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  /**
+   * Read all records from the file.
+   *
+   * @returns The records, oldest first; empty if the file does not exist.
+   */
+  async read(): Promise<UsageRecord[]> {
+    const fs = await loadFs();
+
+    let text: string;
+    try {
+      text = await fs.readFile(this._path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip lines that were not written completely.
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * Ledger of conversion usage.
+ *
+ * Pass it to a `Converter` as the `ledger` option to record every
+ * conversion it runs, and tag conversions with the `tag` conversion
+ * option to attribute their cost.
+ */
+export class UsageLedger {
+  private readonly _store: UsageStore;
+  private readonly onError: (error: unknown, record: UsageRecord) => void;
+
+  /**
+   * Create a new UsageLedger.
+   *
+   * @param store - Optional store; defaults to a `JsonlUsageStore` at the
+   *                configured `conversionSettings.ledgerPath`.
+   * @param options - Optional error handler.
+   */
+  constructor(store?: UsageStore, options: UsageLedgerOptions = {}) {
+    this._store = store ?? new JsonlUsageStore();
+    this.onError = options.onError ?? (() => undefined);
+  }
+
+  /**
+   * Get the store of the ledger.
+   *
+   * @returns The ledger's `UsageStore`.
+   */
+  get store(): UsageStore {
+    return this._store;
+  }
+
+  /**
+   * Append a record to the ledger.
+   *
+   * @param record - The usage record.
+   * @returns A promise that resolves once the record is persisted.
+   * @throws Error - If the record has no valid timestamp, output format,
+   *                 duration or status.
+   */
+  async record(record: UsageRecord): Promise<void> {
+    if (!isUsageRecord(record)) {
+      throw new Error('The usage record must have a valid timestamp, outputFormat, duration and status.');
+    }
+    await this._store.append(record);
+  }
+
+  /**
+   * Append a record to the ledger, reporting a failure to the `onError`
+   * handler instead of throwing.
+   *
+   * Used by `Converter`, so that a ledger failure does not fail the
+   * conversion it records.
+   *
+   * @param record - The usage record.
+   * @returns A promise that resolves to whether the record was persisted.
+   */
+  async tryRecord(record: UsageRecord): Promise<boolean> {
+    try {
+      await this.record(record);
+      return true;
+    } catch (error) {
+      try {
+        this.onError(error, record);
+      } catch {
+        // A failing handler must not fail the conversion either.
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Find the records matching a filter.
+   *
+   * Stored entries that are not valid records, such as entries with an
+   * unparseable timestamp, are skipped.
+   *
+   * @param query - Optional filter.
+   * @returns The matching records, oldest first.
+   */
+  async query(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    const from = query.from === undefined ? -Infinity : new Date(query.from).getTime();
+    const to = query.to === undefined ? Infinity : new Date(query.to).getTime();
+
+    return (await this._store.read()).filter(record => {
+      if (!isUsageRecord(record)) {
+        return false;
+      }
+      const time = new Date(record.timestamp).getTime();
+      return (
+        time >= from &&
+        time < to &&
+        (query.tag === undefined || record.tag === query.tag) &&
+        (query.inputFormat === undefined || record.inputFormat === query.inputFormat) &&
+        (query.outputFormat === undefined || record.outputFormat === query.outputFormat) &&
+        (query.status === undefined || record.status === query.status)
+      );
+    });
+  }
+
+  /**
+   * Report usage totals grouped by day, tag or format pair.
+   *
+   * @param by - Dimension to group by.
+   * @param query - Optional filter applied before grouping.
+   * @returns The totals of each group, ordered by key.
+   */
+  async summarize(by: UsageGrouping, query: UsageQuery = {}): Promise<UsageSummary[]> {
+    const groups = new Map<string, UsageSummary>();
+
+    for (const record of await this.query(query)) {
+      const key = groupKey(record, by);
+      let summary = groups.get(key);
+      if (!summary) {
+        summary = {
+          key,
+          conversions: 0,
+          successful: 0,
+          failed: 0,
+          vcredits: 0,
+          inputBytes: 0,
+          outputBytes: 0,
+          duration: 0,
+        };
+        groups.set(key, summary);
+      }
+
+      summary.conversions++;
+      if (record.status === 'successful') {
+        summary.successful++;
+      } else {
+        summary.failed++;
+      }
+      summary.vcredits += record.vcredits ?? 0;
+      summary.inputBytes += record.inputSize ?? 0;
+      summary.outputBytes += record.outputSize ?? 0;
+      summary.duration += record.duration;
+    }
+
+    return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Export records or usage totals as CSV.
+   *
+   * @param by - Optional dimension to group by. If omitted, the matching
+   *             records are exported one per row.
+   * @param query - Optional filter.
+   * @returns CSV text with a header row.
+   */
+  async exportCSV(by?: UsageGrouping, query: UsageQuery = {}): Promise<string> {
+    return by
+      ? toCSV(await this.summarize(by, query), SUMMARY_COLUMNS)
+      : toCSV(await this.query(query), RECORD_COLUMNS);
+  }
+}
+
+/**
+ * Check whether a value is a usage record that can be queried and grouped.
+ *
+ * @param value - The value to check.
+ * @returns True if the value has a parseable timestamp, an output format,
+ *          a finite duration and a status.
+ */
+function isUsageRecord(value: unknown): value is UsageRecord {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.timestamp === 'string' &&
+    !Number.isNaN(new Date(record.timestamp).getTime()) &&
+    typeof record.outputFormat === 'string' &&
+    typeof record.duration === 'number' &&
+    Number.isFinite(record.duration) &&
+    typeof record.status === 'string'
+  );
+}
+
+/**
+ * Get the group key of a record.
+ *
+ * @param record - The usage record.
+ * @param by - Dimension to group by.
+ * @returns The group key.
+ */
+function groupKey(record: UsageRecord, by: UsageGrouping): string {
+  switch (by) {
+    case 'day':
+      return new Date(record.timestamp).toISOString().slice(0, 10);
+    case 'tag':
+      return record.tag ?? '';
+    case 'pair':
+      return `${record.inputFormat ?? ''}>${record.outputFormat}`;
+  }
+}
+
+/**
+ * Format rows as CSV.
+ *
+ * Text cells starting with `=`, `+`, `-`, `@`, a tab or a carriage return
+ * are prefixed with `'`, so spreadsheets do not evaluate them as formulas.
+ *
+ * @param rows - The rows.
+ * @param columns - Columns to export, in order.
+ * @returns CSV text with a header row and CRLF line endings.
+ */
+function toCSV<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  const escape = (value: unknown): string => {
+    let text = value === undefined || value === null ? '' : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [columns.map(column => escape(column)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escape(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Load the Node.js file system module without exposing it to bundlers.
+ *
+ * @returns The `fs/promises` module.
+ */
+async function loadFs(): Promise<typeof import('fs/promises')> {
+  const moduleName = 'fs/promises';
+  return import(moduleName);
+}
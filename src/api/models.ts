@@ -0,0 +1,342 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Typed response models for the Vertopal public API (v1). Each
+//   response payload has a TypeScript interface and a lightweight
+//   runtime validator that checks the fields the library relies on
+//   and raises `InvalidJSONResponseError` naming the offending path.
+
+import { ShapeValidator } from '../utils/dataWrappers.ts';
+
+/**
+ * Error or warning object embedded in an API response.
+ */
+export interface APIMessage {
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Task entity describing a Vertopal task.
+ *
+ * @property id - Task identifier, used as the task connector.
+ * @property token - Optional task token.
+ * @property type - Optional task type (e.g. "upload", "convert").
+ * @property status - Task status (e.g. "running", "completed").
+ * @property vcredits - vCredits consumed by the task, once known.
+ */
+export interface TaskEntity {
+  id: string;
+  token?: string;
+  type?: string;
+  status: string;
+  vcredits?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Common envelope of every API response.
+ *
+ * @property code - Optional top-level response code.
+ * @property result - Task result holding the `output` payload.
+ * @property entity - Task entity, for task-creating endpoints.
+ * @property warning - Optional top-level warning.
+ */
+export interface APIResponse<TOutput, TEntity = TaskEntity | undefined> {
+  code?: string;
+  result: {
+    output: TOutput;
+    error?: APIMessage;
+    warning?: APIMessage;
+  };
+  entity: TEntity;
+  warning?: APIMessage;
+}
+
+/**
+ * Output of `/upload/file`.
+ *
+ * @property connector - Connector referencing the uploaded file.
+ * @property name - Optional name of the uploaded file.
+ * @property size - Optional size of the uploaded file in bytes.
+ */
+export interface UploadFileOutput {
+  connector: string;
+  name?: string;
+  size?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of a completed conversion.
+ *
+ * @property status - Conversion status ("successful" or "failed").
+ */
+export interface ConversionResult {
+  output: {
+    status: string;
+    [key: string]: unknown;
+  };
+  error?: APIMessage;
+  warning?: APIMessage;
+}
+
+/**
+ * Output of `/convert/file`. For asynchronous tasks the output may be
+ * empty until the task completes.
+ */
+export interface ConvertFileOutput {
+  status?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/convert/status`.
+ *
+ * @property task - Optional status of the conversion task.
+ * @property status - Optional status of the conversion.
+ */
+export interface ConvertStatusOutput {
+  task?: string;
+  status?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/task/response`, wrapping the response of the queried task.
+ *
+ * @property entity - Entity of the queried task.
+ * @property result - Result of the queried task, once it is completed.
+ */
+export interface TaskResponseOutput {
+  entity: TaskEntity;
+  result?: ConversionResult;
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/download/url`.
+ *
+ * @property connector - Connector referencing the download task.
+ * @property name - Filename of the converted file.
+ * @property url - Optional direct download URL.
+ */
+export interface DownloadUrlOutput {
+  connector: string;
+  name: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/format/get`, describing a single format.
+ *
+ * @property name - Format name.
+ * @property type - Optional format type.
+ * @property title - Optional human-readable title.
+ * @property extensions - Optional file extensions of the format.
+ * @property parameters - Optional names of the conversion parameters
+ *                        the format supports, when reported.
+ */
+export interface FormatInfo {
+  name?: string;
+  type?: string;
+  title?: string;
+  extensions?: string[];
+  parameters?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/convert/graph`, describing the conversion path.
+ *
+ * @property graph - Optional formats visited from input to output.
+ * @property vcredits - Optional estimated vCredit cost.
+ */
+export interface ConvertGraphOutput {
+  graph?: string[];
+  vcredits?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Output of `/convert/formats`, keyed by the requested sublist.
+ *
+ * @property inputs - Input formats, when inputs were requested.
+ * @property outputs - Output formats, when outputs were requested.
+ */
+export interface ConvertFormatsOutput {
+  inputs?: string[];
+  outputs?: string[];
+  [key: string]: unknown;
+}
+
+export type UploadFileResponse = APIResponse<UploadFileOutput>;
+export type ConvertStatusResponse = APIResponse<ConvertStatusOutput>;
+export type TaskResponse = APIResponse<TaskResponseOutput>;
+export type DownloadUrlResponse = APIResponse<DownloadUrlOutput>;
+export type FormatGetResponse = APIResponse<FormatInfo>;
+export type ConvertGraphResponse = APIResponse<ConvertGraphOutput>;
+export type ConvertFormatsResponse = APIResponse<ConvertFormatsOutput>;
+
+/**
+ * Response of `/convert/file`. Asynchronous conversions may omit the
+ * `result` until the task completes.
+ */
+export interface ConvertFileResponse
+  extends Omit<APIResponse<ConvertFileOutput, TaskEntity>, 'result'> {
+  result?: APIResponse<ConvertFileOutput>['result'];
+}
+
+/**
+ * Validate a task entity at a path.
+ *
+ * @param validator - Validator of the enclosing response.
+ * @param path - Path of the entity.
+ * @returns Void.
+ */
+function checkEntity(validator: ShapeValidator, path: string): void {
+  validator
+    .require(path, 'object')
+    .require(`${path}.id`, 'string')
+    .require(`${path}.status`, 'string')
+    .optional(`${path}.vcredits`, 'number');
+}
+
+/**
+ * Validate an `/upload/file` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `UploadFileResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateUploadFileResponse(response: unknown): UploadFileResponse {
+  new ShapeValidator(response, 'upload file')
+    .require('result.output', 'object')
+    .require('result.output.connector', 'string')
+    .optional('result.output.name', 'string')
+    .optional('result.output.size', 'number');
+  return response as UploadFileResponse;
+}
+
+/**
+ * Validate a `/convert/file` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `ConvertFileResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateConvertFileResponse(response: unknown): ConvertFileResponse {
+  const validator = new ShapeValidator(response, 'convert file');
+  checkEntity(validator, 'entity');
+  validator
+    .optional('result', 'object')
+    .optional('result.output', 'object')
+    .optional('result.output.status', 'string');
+  return response as ConvertFileResponse;
+}
+
+/**
+ * Validate a `/convert/status` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `ConvertStatusResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateConvertStatusResponse(response: unknown): ConvertStatusResponse {
+  new ShapeValidator(response, 'convert status')
+    .require('result.output', 'object')
+    .optional('result.output.task', 'string')
+    .optional('result.output.status', 'string');
+  return response as ConvertStatusResponse;
+}
+
+/**
+ * Validate a `/task/response` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `TaskResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateTaskResponse(response: unknown): TaskResponse {
+  const validator = new ShapeValidator(response, 'task')
+    .require('result.output', 'object');
+  checkEntity(validator, 'result.output.entity');
+  if (validator.has('result.output.result')) {
+    validator
+      .require('result.output.result', 'object')
+      .require('result.output.result.output.status', 'string');
+  }
+  return response as TaskResponse;
+}
+
+/**
+ * Validate a `/download/url` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `DownloadUrlResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateDownloadUrlResponse(response: unknown): DownloadUrlResponse {
+  new ShapeValidator(response, 'download url')
+    .require('result.output', 'object')
+    .require('result.output.connector', 'string')
+    .require('result.output.name', 'string')
+    .optional('result.output.url', 'string');
+  return response as DownloadUrlResponse;
+}
+
+/**
+ * Validate a `/format/get` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `FormatGetResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateFormatGetResponse(response: unknown): FormatGetResponse {
+  new ShapeValidator(response, 'format get')
+    .require('result.output', 'object')
+    .optional('result.output.name', 'string')
+    .optional('result.output.type', 'string')
+    .optional('result.output.title', 'string')
+    .optional('result.output.extensions', 'string[]')
+    .optional('result.output.parameters', 'string[]');
+  return response as FormatGetResponse;
+}
+
+/**
+ * Validate a `/convert/graph` response.
+ *
+ * @param response - Parsed JSON response.
+ * @returns The response, typed as `ConvertGraphResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateConvertGraphResponse(response: unknown): ConvertGraphResponse {
+  new ShapeValidator(response, 'convert graph')
+    .require('result.output', 'object')
+    .optional('result.output.graph', 'string[]')
+    .optional('result.output.vcredits', 'number');
+  return response as ConvertGraphResponse;
+}
+
+/**
+ * Validate a `/convert/formats` response.
+ *
+ * @param response - Parsed JSON response.
+ * @param sublist - The requested sublist, whose key must hold the formats.
+ * @returns The response, typed as `ConvertFormatsResponse`.
+ * @throws InvalidJSONResponseError - If the response has the wrong shape.
+ */
+export function validateConvertFormatsResponse(
+  response: unknown,
+  sublist: 'inputs' | 'outputs'
+): ConvertFormatsResponse {
+  new ShapeValidator(response, 'convert formats')
+    .require('result.output', 'object')
+    .require(`result.output.${sublist}`, 'string[]');
+  return response as ConvertFormatsResponse;
+}
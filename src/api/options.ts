@@ -0,0 +1,428 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Conversion parameters passed through to `/convert/file`, with local
+//   validation and typed builders for common converter families such as
+//   images, documents, and audio/video media.
+
+import {
+  InvalidParameterError,
+  WrongTypeParameterError,
+  WrongValueParameterError
+} from '../common/exceptions.ts';
+
+/**
+ * Value of a single conversion parameter.
+ */
+export type ConversionParameterValue = string | number | boolean;
+
+/**
+ * Converter settings sent as `parameters` of `/convert/file`, alongside
+ * the input and output formats.
+ */
+export type ConversionParameters = Record<string, ConversionParameterValue>;
+
+/**
+ * Parameters managed by the library itself, which callers may not set.
+ */
+const RESERVED_PARAMETERS = ['input', 'output'];
+
+/**
+ * Pattern that valid parameter names must match.
+ */
+const PARAMETER_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Validate conversion parameters before they are sent.
+ *
+ * @param parameters - The parameters to validate.
+ * @param supported - Optional names of the parameters the target format
+ *                    supports, as reported by `/format/get`.
+ * @returns The validated parameters.
+ * @throws InvalidParameterError - If a name is reserved, malformed, or
+ *                                 not supported by the target format.
+ * @throws WrongTypeParameterError - If a value is not a string, a finite
+ *                                   number, or a boolean.
+ */
+export function validateConversionParameters(
+  parameters: ConversionParameters,
+  supported?: string[]
+): ConversionParameters {
+  for (const [name, value] of Object.entries(parameters)) {
+    if (RESERVED_PARAMETERS.includes(name)) {
+      throw new InvalidParameterError(
+        `The \`${name}\` parameter is set from the conversion formats.`,
+        { code: 'INVALID_PARAMETER' }
+      );
+    }
+    if (!PARAMETER_NAME_PATTERN.test(name)) {
+      throw new InvalidParameterError(
+        `Invalid parameter name: \`${name}\`.`,
+        { code: 'INVALID_PARAMETER' }
+      );
+    }
+    if (supported && !supported.includes(name)) {
+      throw new InvalidParameterError(
+        `The \`${name}\` parameter is not supported. ` +
+        `Supported parameters: ${supported.join(', ') || 'none'}.`,
+        { code: 'INVALID_PARAMETER' }
+      );
+    }
+
+    const valid =
+      typeof value === 'string' ||
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value));
+    if (!valid) {
+      throw new WrongTypeParameterError(
+        `The \`${name}\` parameter must be a string, a finite number, or a boolean.`,
+        { code: 'WRONG_TYPE_PARAMETER' }
+      );
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Base class of typed conversion parameter builders.
+ *
+ * Setters validate their values eagerly and return the builder, so
+ * calls can be chained. `set()` allows parameters the builder does not
+ * model explicitly.
+ */
+export abstract class ParameterBuilder {
+  protected readonly parameters: ConversionParameters = {};
+
+  /**
+   * Set an arbitrary parameter.
+   *
+   * @param name - Parameter name.
+   * @param value - Parameter value.
+   * @returns This builder.
+   */
+  set(name: string, value: ConversionParameterValue): this {
+    this.parameters[name] = value;
+    return this;
+  }
+
+  /**
+   * Build the parameter record.
+   *
+   * @returns A validated copy of the parameters.
+   * @throws InvalidParameterError - If a parameter name is invalid.
+   * @throws WrongTypeParameterError - If a parameter value has the wrong type.
+   */
+  build(): ConversionParameters {
+    return validateConversionParameters({ ...this.parameters });
+  }
+
+  /**
+   * Serialize the parameters as JSON.
+   *
+   * @returns The parameter record.
+   */
+  toJSON(): ConversionParameters {
+    return this.build();
+  }
+
+  /**
+   * Set a numeric parameter within a range.
+   *
+   * @param name - Parameter name.
+   * @param value - Parameter value.
+   * @param min - Smallest allowed value.
+   * @param max - Largest allowed value.
+   * @param integer - Whether the value must be an integer.
+   * @returns This builder.
+   * @throws WrongValueParameterError - If the value is out of range.
+   */
+  protected number(
+    name: string,
+    value: number,
+    min: number,
+    max: number = Infinity,
+    integer: boolean = true
+  ): this {
+    if (
+      !Number.isFinite(value) ||
+      (integer && !Number.isInteger(value)) ||
+      value < min ||
+      value > max
+    ) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      throw new WrongValueParameterError(
+        `The \`${name}\` parameter must be ${integer ? 'an integer' : 'a number'} ${range}.`,
+        { code: 'WRONG_VALUE_PARAMETER' }
+      );
+    }
+    return this.set(name, value);
+  }
+
+  /**
+   * Set a parameter restricted to a list of values.
+   *
+   * @param name - Parameter name.
+   * @param value - Parameter value.
+   * @param choices - Allowed values.
+   * @returns This builder.
+   * @throws WrongValueParameterError - If the value is not allowed.
+   */
+  protected choice<T extends string>(name: string, value: T, choices: readonly T[]): this {
+    if (!choices.includes(value)) {
+      throw new WrongValueParameterError(
+        `The \`${name}\` parameter must be one of: ${choices.join(', ')}.`,
+        { code: 'WRONG_VALUE_PARAMETER' }
+      );
+    }
+    return this.set(name, value);
+  }
+}
+
+/**
+ * Parameter builder for image conversions.
+ */
+export class ImageOptions extends ParameterBuilder {
+
+  /**
+   * Set the output quality for lossy image formats.
+   *
+   * @param value - Quality from 1 (lowest) to 100 (highest).
+   * @returns This builder.
+   */
+  quality(value: number): this {
+    return this.number('quality', value, 1, 100);
+  }
+
+  /**
+   * Set the output resolution.
+   *
+   * @param dpi - Resolution in dots per inch.
+   * @returns This builder.
+   */
+  resolution(dpi: number): this {
+    return this.number('resolution', dpi, 1);
+  }
+
+  /**
+   * Set the output width, keeping the aspect ratio unless a height is set.
+   *
+   * @param pixels - Width in pixels.
+   * @returns This builder.
+   */
+  width(pixels: number): this {
+    return this.number('width', pixels, 1);
+  }
+
+  /**
+   * Set the output height, keeping the aspect ratio unless a width is set.
+   *
+   * @param pixels - Height in pixels.
+   * @returns This builder.
+   */
+  height(pixels: number): this {
+    return this.number('height', pixels, 1);
+  }
+
+  /**
+   * Set the background color used to fill transparent areas.
+   *
+   * @param color - Color as a hex string such as "#ffffff".
+   * @returns This builder.
+   * @throws WrongValueParameterError - If the color is not a hex color.
+   */
+  background(color: string): this {
+    if (!/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+      throw new WrongValueParameterError(
+        'The `background` parameter must be a hex color such as "#ffffff".',
+        { code: 'WRONG_VALUE_PARAMETER' }
+      );
+    }
+    return this.set('background', color);
+  }
+
+  /**
+   * Convert the image to grayscale.
+   *
+   * @param enabled - Whether to convert to grayscale (default: true).
+   * @returns This builder.
+   */
+  grayscale(enabled: boolean = true): this {
+    return this.set('grayscale', enabled);
+  }
+}
+
+/**
+ * Parameter builder for document conversions.
+ */
+export class DocumentOptions extends ParameterBuilder {
+
+  /**
+   * Restrict the conversion to a range of pages.
+   *
+   * @param range - Page range such as "1-3,5,8-".
+   * @returns This builder.
+   * @throws WrongValueParameterError - If the range is malformed.
+   */
+  pages(range: string): this {
+    if (!/^\s*\d+(?:\s*-\s*\d*)?(?:\s*,\s*\d+(?:\s*-\s*\d*)?)*\s*$/.test(range)) {
+      throw new WrongValueParameterError(
+        'The `pages` parameter must be a page range such as "1-3,5,8-".',
+        { code: 'WRONG_VALUE_PARAMETER' }
+      );
+    }
+    return this.set('pages', range.replace(/\s+/g, ''));
+  }
+
+  /**
+   * Set the password of a protected input document.
+   *
+   * @param value - The document password.
+   * @returns This builder.
+   */
+  password(value: string): this {
+    return this.set('password', value);
+  }
+
+  /**
+   * Set the page orientation of the output document.
+   *
+   * @param value - Either "portrait" or "landscape".
+   * @returns This builder.
+   */
+  orientation(value: 'portrait' | 'landscape'): this {
+    return this.choice('orientation', value, ['portrait', 'landscape']);
+  }
+
+  /**
+   * Set the page size of the output document.
+   *
+   * @param value - Page size name such as "a4" or "letter".
+   * @returns This builder.
+   */
+  pageSize(value: string): this {
+    return this.set('page_size', value.toLowerCase());
+  }
+
+  /**
+   * Set the page margin of the output document.
+   *
+   * @param millimeters - Margin in millimeters.
+   * @returns This builder.
+   */
+  margin(millimeters: number): this {
+    return this.number('margin', millimeters, 0, Infinity, false);
+  }
+
+  /**
+   * Embed fonts in the output document.
+   *
+   * @param enabled - Whether to embed fonts (default: true).
+   * @returns This builder.
+   */
+  embedFonts(enabled: boolean = true): this {
+    return this.set('embed_fonts', enabled);
+  }
+}
+
+/**
+ * Parameter builder for audio and video conversions.
+ */
+export class MediaOptions extends ParameterBuilder {
+
+  /**
+   * Set the start position of the output.
+   *
+   * @param seconds - Offset from the beginning of the input, in seconds.
+   * @returns This builder.
+   */
+  start(seconds: number): this {
+    return this.number('start', seconds, 0, Infinity, false);
+  }
+
+  /**
+   * Set the duration of the output.
+   *
+   * @param seconds - Duration in seconds.
+   * @returns This builder.
+   */
+  duration(seconds: number): this {
+    return this.number('duration', seconds, 0, Infinity, false);
+  }
+
+  /**
+   * Set the audio bitrate.
+   *
+   * @param kbps - Bitrate in kilobits per second.
+   * @returns This builder.
+   */
+  audioBitrate(kbps: number): this {
+    return this.number('audio_bitrate', kbps, 8, 1024);
+  }
+
+  /**
+   * Set the audio sample rate.
+   *
+   * @param hertz - Sample rate in hertz, such as 44100.
+   * @returns This builder.
+   */
+  sampleRate(hertz: number): this {
+    return this.number('sample_rate', hertz, 8000, 384000);
+  }
+
+  /**
+   * Set the number of audio channels.
+   *
+   * @param count - Number of channels, such as 1 (mono) or 2 (stereo).
+   * @returns This builder.
+   */
+  channels(count: number): this {
+    return this.number('channels', count, 1, 8);
+  }
+
+  /**
+   * Set the video bitrate.
+   *
+   * @param kbps - Bitrate in kilobits per second.
+   * @returns This builder.
+   */
+  videoBitrate(kbps: number): this {
+    return this.number('video_bitrate', kbps, 1);
+  }
+
+  /**
+   * Set the video frame rate.
+   *
+   * @param fps - Frames per second.
+   * @returns This builder.
+   */
+  frameRate(fps: number): this {
+    return this.number('frame_rate', fps, 1, 240, false);
+  }
+
+  /**
+   * Set the video frame size.
+   *
+   * @param width - Width in pixels.
+   * @param height - Height in pixels.
+   * @returns This builder.
+   */
+  size(width: number, height: number): this {
+    this.number('width', width, 1);
+    return this.number('height', height, 1);
+  }
+
+  /**
+   * Remove the audio track from a video.
+   *
+   * @param enabled - Whether to remove the audio (default: true).
+   * @returns This builder.
+   */
+  mute(enabled: boolean = true): this {
+    return this.set('mute', enabled);
+  }
+}
@@ -0,0 +1,497 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Multi-step conversions chained by connector. A `Pipeline` uploads its
+//   input once and converts it through a series of formats, such as
+//   docx to pdf to png, where each step converts the result of the
+//   previous one on the server. Only the result of the last step is
+//   downloaded.
+
+import type { API } from './v1.ts';
+import type {
+  ConversionResult,
+  ConvertFileResponse,
+  TaskResponseOutput
+} from './models.ts';
+import { UploadSession } from './upload.ts';
+import { FormatCatalog } from './catalog.ts';
+import type { CreditBudget } from './budget.ts';
+import type { UsageLedger } from './ledger.ts';
+import {
+  ParameterBuilder,
+  validateConversionParameters,
+  type ConversionParameters
+} from './options.ts';
+import { InterfaceStrategyMode } from '../common/enums.ts';
+import type { Readable, Writable, PathWritable } from '../io/protocols.ts';
+import { canonicalizeFormat, getExtension, poll } from '../utils/misc.ts';
+import { SLEEP_PATTERN } from '../config/settings.ts';
+import {
+  APIException,
+  ConversionAbortedError,
+  EntityStatusNotRunningError,
+  FailedConvertError,
+  PipelineStepError
+} from '../common/exceptions.ts';
+import { ERROR_CODE_MAP } from '../utils/exceptionHandler.ts';
+import { FormatRegistry } from '../utils/formatRegistry.ts';
+
+/**
+ * Progress of a pipeline step.
+ *
+ * - `'pending'`: the step has not been started.
+ * - `'running'`: the step is being converted.
+ * - `'completed'`: the step was converted successfully.
+ * - `'failed'`: the step could not be converted.
+ */
+export type PipelineStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * State of one step of a `Pipeline`.
+ *
+ * @property index - Zero-based position of the step.
+ * @property input - Input format[-type] of the step. For the first step,
+ *                   `undefined` if the service infers it from the filename.
+ * @property output - Output format[-type] of the step.
+ * @property status - Progress of the step.
+ * @property connector - Connector of the convert task, once started.
+ * @property vcredits - vCredits spent by the step, once completed.
+ */
+export interface PipelineStep {
+  index: number;
+  input?: string;
+  output: string;
+  status: PipelineStepStatus;
+  connector?: string;
+  vcredits?: number;
+}
+
+/**
+ * Options for a step added with `Pipeline.to`.
+ *
+ * @property parameters - Optional converter settings of the step, as a
+ *                        record or a typed builder such as `ImageOptions`.
+ */
+export interface PipelineStepOptions {
+  parameters?: ConversionParameters | ParameterBuilder;
+}
+
+/**
+ * Options for `Pipeline.run`.
+ *
+ * @property signal - Optional `AbortSignal` that cancels the pipeline.
+ * @property onProgress - Optional handler called with a copy of a step
+ *                        whenever it changes.
+ * @property useServerFilename - If `true` and the output is a
+ *                               `PathWritable`, save the result under the
+ *                               filename provided by the server.
+ */
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (step: PipelineStep) => void;
+  useServerFilename?: boolean;
+}
+
+/**
+ * Converter-level services used by a pipeline.
+ *
+ * @property catalog - Format catalog used for step cost estimates.
+ * @property budget - Optional vCredit budget each step must fit in.
+ * @property ledger - Optional ledger each step is recorded in.
+ */
+export interface PipelineServices {
+  catalog?: FormatCatalog;
+  budget?: CreditBudget;
+  ledger?: UsageLedger;
+}
+
+/**
+ * Builder and runner of a multi-step conversion.
+ *
+ * Each step added with `to()` converts the output of the previous step,
+ * passing the connector of its convert task to the next `/convert/file`
+ * request, so intermediate results are never downloaded:
+ *
+ * ```ts
+ * await converter.pipeline(new FileInput('report.docx'))
+ *   .to('pdf')
+ *   .to('png', { parameters: new ImageOptions().resolution(150) })
+ *   .run(new FileOutput('report.png'));
+ * ```
+ *
+ * If a step fails, `run()` raises a `PipelineStepError` naming the step.
+ * With a budget, the estimated cost of each step is reserved before the
+ * step is requested; with a ledger, each step that was started is
+ * recorded once it completes or fails.
+ */
+export class Pipeline {
+  private readonly client: API;
+  private readonly readable: Readable;
+  private readonly inputFormat?: string;
+  private readonly catalog: FormatCatalog;
+  private readonly budget?: CreditBudget;
+  private readonly ledger?: UsageLedger;
+  private readonly _steps: PipelineStep[] = [];
+  private readonly parameters: ConversionParameters[] = [];
+  private started: boolean = false;
+
+  /**
+   * Create a new Pipeline.
+   *
+   * @param client - API client instance for communication.
+   * @param readable - Input of the first step.
+   * @param inputFormat - Optional input format[-type] string. If omitted,
+   *                      the service infers it from the input filename.
+   * @param services - Optional catalog, budget and ledger of the converter.
+   */
+  constructor(
+    client: API,
+    readable: Readable,
+    inputFormat?: string,
+    services: PipelineServices = {}
+  ) {
+    this.client = client;
+    this.readable = readable;
+    this.inputFormat = canonicalizeFormat(inputFormat);
+    this.catalog = services.catalog ?? new FormatCatalog(client);
+    this.budget = services.budget;
+    this.ledger = services.ledger;
+  }
+
+  /**
+   * Get the state of the steps.
+   *
+   * @returns Copies of the steps, in order.
+   */
+  get steps(): PipelineStep[] {
+    return this._steps.map(step => ({ ...step }));
+  }
+
+  /**
+   * Add a step converting the output of the previous step.
+   *
+   * @param outputFormat - Output format[-type] string of the step.
+   * @param options - Optional step options such as parameters.
+   * @returns The pipeline, for chaining.
+   * @throws Error - If the pipeline has already been run.
+   * @throws InvalidParameterError - If a conversion parameter name is invalid.
+   * @throws WrongTypeParameterError - If a conversion parameter value has
+   *                                   the wrong type.
+   */
+  to(outputFormat: string, options: PipelineStepOptions = {}): this {
+    if (this.started) {
+      throw new Error('Steps cannot be added once the pipeline has been run.');
+    }
+
+    const previous = this._steps[this._steps.length - 1];
+    this._steps.push({
+      index: this._steps.length,
+      input: previous ? previous.output : this.inputFormat,
+      output: canonicalizeFormat(outputFormat) as string,
+      status: 'pending',
+    });
+    this.parameters.push(options.parameters instanceof ParameterBuilder
+      ? options.parameters.build()
+      : validateConversionParameters({ ...options.parameters }));
+    return this;
+  }
+
+  /**
+   * Upload the input, run the steps in order, and download the result of
+   * the last step.
+   *
+   * @param writable - Output stream for the result of the last step.
+   * @param options - Optional abort signal, progress handler, and
+   *                  filename option.
+   * @returns A promise that resolves when the result is downloaded.
+   * @throws Error - If the pipeline has no steps or has already been run.
+   * @throws PipelineStepError - If uploading the input, a step, or
+   *                             downloading the result fails, or a step
+   *                             does not fit in the budget; `step` is the
+   *                             index of the step involved and `cause` the
+   *                             error that made it fail.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  async run(writable: Writable, options: PipelineRunOptions = {}): Promise<void> {
+    if (!this._steps.length) {
+      throw new Error('The pipeline has no steps; add one with `to()`.');
+    }
+    if (this.started) {
+      throw new Error('The pipeline has already been run.');
+    }
+    this.started = true;
+
+    const first = this._steps[0]!;
+    const upload = new UploadSession(this.client, this.readable, options.signal);
+    let connector: string;
+    try {
+      connector = await upload.connector();
+    } catch (error) {
+      // Nothing was converted yet, so the pipeline may be run again.
+      this.started = false;
+      this.update(first, { status: 'failed' }, options);
+      throw this.stepError(first, 'failed to upload the input', error);
+    }
+
+    for (const step of this._steps) {
+      connector = await this.runStep(step, connector, upload, options);
+    }
+    await this.download(connector, writable, options);
+  }
+
+  /**
+   * Download the result of the last step.
+   *
+   * @param connector - Connector of the last step's convert task.
+   * @param writable - Output stream for the result.
+   * @param options - Options the pipeline is run with.
+   * @returns A promise that resolves when the result is downloaded.
+   * @throws PipelineStepError - If the download fails.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  private async download(
+    connector: string,
+    writable: Writable,
+    options: PipelineRunOptions
+  ): Promise<void> {
+    const last = this._steps[this._steps.length - 1]!;
+    try {
+      const response = await this.client.downloadUrl(connector, { signal: options.signal });
+      const { connector: download, name } = response.result.output;
+      if (options.useServerFilename && 'path' in writable) {
+        (writable as PathWritable).path = FormatRegistry.filenameFor(name, last.output);
+      }
+      await this.client.downloadUrlGet(writable, download, undefined, { signal: options.signal });
+    } catch (error) {
+      throw this.stepError(last, 'failed to download the result', error);
+    }
+  }
+
+  /**
+   * Convert one step and wait until it is completed.
+   *
+   * The estimated cost of the step is reserved in the budget before the
+   * step is requested, and released once it completes or fails.
+   *
+   * @param step - The step.
+   * @param source - Connector of the upload or of the previous step.
+   * @param upload - Upload of the input, refreshed if the first step
+   *                 finds its connector expired.
+   * @param options - Options the pipeline is run with.
+   * @returns Connector of the step's convert task.
+   * @throws PipelineStepError - If the step fails.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  private async runStep(
+    step: PipelineStep,
+    source: string,
+    upload: UploadSession,
+    options: PipelineRunOptions
+  ): Promise<string> {
+    this.update(step, { status: 'running' }, options);
+    const startedAt = Date.now();
+    let reservation: number | undefined;
+
+    try {
+      if (this.budget) {
+        reservation = this.budget.reserve(await this.estimateStep(step, options.signal));
+      }
+
+      let response: ConvertFileResponse;
+      try {
+        response = await this.requestStep(step, source, options.signal);
+      } catch (error) {
+        if (step.index > 0 || !UploadSession.isExpired(error)) {
+          throw error;
+        }
+        // The uploaded file expired before the first step started.
+        response = await this.requestStep(step, await upload.refresh(source), options.signal);
+      }
+
+      this.update(step, { connector: response.entity.id }, options);
+      const output = await this.waitForStep(response, options.signal);
+      const result = output.result;
+
+      if (result?.output.status !== 'successful') {
+        const code = result?.error?.code;
+        const ExceptionClass = (code && ERROR_CODE_MAP[code]) || FailedConvertError;
+        throw new ExceptionClass(
+          result?.error?.message ?? 'The conversion has failed.',
+          { code, response: output }
+        );
+      }
+
+      if (output.entity.vcredits !== undefined) {
+        this.budget?.record(output.entity.id, output.entity.vcredits);
+      }
+      this.update(step, { status: 'completed', vcredits: output.entity.vcredits }, options);
+      await this.recordStep(step, startedAt, 'successful', {
+        outputSize: typeof result.output.size === 'number' ? result.output.size : undefined,
+      });
+      return response.entity.id;
+    } catch (error) {
+      this.update(step, { status: 'failed' }, options);
+      await this.recordStep(step, startedAt, 'failed', {
+        errorCode: error instanceof APIException && error.code
+          ? error.code
+          : (error as Error)?.name,
+      });
+      throw this.stepError(step, 'failed', error);
+    } finally {
+      if (reservation !== undefined) {
+        this.budget?.release(reservation);
+      }
+    }
+  }
+
+  /**
+   * Estimate the cost of a step with `/convert/graph`.
+   *
+   * @param step - The step.
+   * @param signal - Optional `AbortSignal` that cancels the request.
+   * @returns The estimated vCredits, or `undefined` if the input format
+   *          of the step is unknown or the cost is not reported.
+   */
+  private async estimateStep(
+    step: PipelineStep,
+    signal?: AbortSignal
+  ): Promise<number | undefined> {
+    const input = step.input ?? getExtension(this.readable.filename);
+    if (!input) {
+      return undefined;
+    }
+    const graph = await this.catalog.graph(input, step.output, { signal });
+    return graph.vcredits;
+  }
+
+  /**
+   * Append the usage record of a step to the ledger, if any.
+   *
+   * A failure to append is reported to the ledger's `onError` handler
+   * and does not fail the step.
+   *
+   * @param step - The step.
+   * @param startedAt - Time the step was started, in milliseconds.
+   * @param status - Final status of the step.
+   * @param details - Optional error code and output size.
+   * @returns A promise that resolves once the record is handled.
+   */
+  private async recordStep(
+    step: PipelineStep,
+    startedAt: number,
+    status: string,
+    details: { errorCode?: string; outputSize?: number } = {}
+  ): Promise<void> {
+    await this.ledger?.tryRecord({
+      timestamp: new Date().toISOString(),
+      taskId: step.connector,
+      inputFormat: step.input ?? getExtension(this.readable.filename),
+      outputFormat: step.output,
+      inputSize: step.index === 0 ? await this.readable.size?.() : undefined,
+      outputSize: details.outputSize,
+      duration: Date.now() - startedAt,
+      vcredits: step.vcredits,
+      status,
+      errorCode: details.errorCode,
+    });
+  }
+
+  /**
+   * Build the error raised when a step fails.
+   *
+   * @param step - The step.
+   * @param action - What failed, such as "failed to download the result".
+   * @param error - The error that made the step fail.
+   * @returns A `PipelineStepError` wrapping the error, or the error
+   *          itself if it is a `ConversionAbortedError`.
+   */
+  private stepError(step: PipelineStep, action: string, error: unknown): Error {
+    if (error instanceof ConversionAbortedError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new PipelineStepError(
+      `Step ${step.index + 1} of ${this._steps.length} ` +
+      `(${step.input ?? 'input'} to ${step.output}) ${action}: ${message}`,
+      {
+        step: step.index,
+        input: step.input,
+        output: step.output,
+        code: error instanceof APIException ? error.code : undefined,
+        cause: error,
+      }
+    );
+  }
+
+  /**
+   * Request the conversion of a step.
+   *
+   * @param step - The step.
+   * @param source - Connector of the step's input.
+   * @param signal - Optional `AbortSignal` that cancels the request.
+   * @returns The convert response.
+   */
+  private async requestStep(
+    step: PipelineStep,
+    source: string,
+    signal?: AbortSignal
+  ): Promise<ConvertFileResponse> {
+    return this.client.convertFile(
+      source,
+      step.output,
+      step.input,
+      InterfaceStrategyMode.ASYNC,
+      { signal, parameters: this.parameters[step.index] }
+    );
+  }
+
+  /**
+   * Poll the convert task of a step until it is completed.
+   *
+   * @param response - The convert response of the step.
+   * @param signal - Optional `AbortSignal` that stops polling.
+   * @returns The task output of the completed step.
+   * @throws EntityStatusNotRunningError - If the convert task is not running.
+   * @throws ConversionAbortedError - If the signal is aborted.
+   */
+  private async waitForStep(
+    response: ConvertFileResponse,
+    signal?: AbortSignal
+  ): Promise<TaskResponseOutput> {
+    if (response.entity.status === 'completed' && response.result?.output.status) {
+      return { entity: response.entity, result: response.result as ConversionResult };
+    }
+    if (response.entity.status !== 'running') {
+      throw new EntityStatusNotRunningError();
+    }
+
+    let output: TaskResponseOutput | undefined;
+    await poll(async () => {
+      output = (await this.client.taskResponse(response.entity.id, { signal })).result.output;
+      return output.entity.status === 'completed';
+    }, SLEEP_PATTERN, signal);
+    return output!;
+  }
+
+  /**
+   * Update a step and report the change.
+   *
+   * @param step - The step.
+   * @param changes - New values of the step's fields.
+   * @param options - Options holding the progress handler.
+   * @returns Void.
+   */
+  private update(
+    step: PipelineStep,
+    changes: Partial<PipelineStep>,
+    options: PipelineRunOptions
+  ): void {
+    Object.assign(step, changes);
+    options.onProgress?.({ ...step });
+  }
+}
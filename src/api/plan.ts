@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Conversion plans built from `/convert/graph`. A plan lists the
+//   intermediate steps the service takes from the input format to the
+//   output format, its estimated vCredit cost, and any warnings, and can
+//   be printed or compared with the plans of other candidate outputs.
+
+import type { APIMessage, ConvertGraphResponse } from './models.ts';
+
+/**
+ * A single step of a conversion plan.
+ *
+ * @property from - Format converted from.
+ * @property to - Format converted to.
+ */
+export interface ConversionStep {
+  from: string;
+  to: string;
+}
+
+/**
+ * The path and estimated cost of a conversion.
+ */
+export class ConversionPlan {
+  readonly input: string;
+  readonly output: string;
+  readonly steps: ConversionStep[];
+  readonly vcredits?: number;
+  readonly warnings: string[];
+
+  /**
+   * Create a new ConversionPlan.
+   *
+   * @param input - Input format[-type].
+   * @param output - Output format[-type].
+   * @param formats - Formats visited from input to output, inclusive.
+   * @param vcredits - Optional estimated vCredit cost.
+   * @param warnings - Optional warnings about the conversion.
+   */
+  constructor(
+    input: string,
+    output: string,
+    formats: string[],
+    vcredits?: number,
+    warnings: string[] = []
+  ) {
+    this.input = input;
+    this.output = output;
+    this.vcredits = vcredits;
+    this.warnings = warnings;
+
+    const path = formats.length >= 2 ? formats : [input, output];
+    this.steps = path.slice(1).map((to, index) => ({ from: path[index]!, to }));
+  }
+
+  /**
+   * Build a plan from a `/convert/graph` response.
+   *
+   * Warnings reported by the API are kept, and a warning is added when
+   * the conversion passes through intermediate formats or its cost is
+   * not reported.
+   *
+   * @param input - Input format[-type].
+   * @param output - Output format[-type].
+   * @param response - Validated `/convert/graph` response.
+   * @returns The conversion plan.
+   */
+  static fromGraph(
+    input: string,
+    output: string,
+    response: ConvertGraphResponse
+  ): ConversionPlan {
+    const { graph = [], vcredits } = response.result.output;
+    const warnings = [response.warning, response.result.warning]
+      .filter((warning): warning is APIMessage => !!warning?.message)
+      .map(warning => warning.message!);
+
+    if (graph.length > 2) {
+      warnings.push(
+        `Converts through intermediate formats (${graph.slice(1, -1).join(', ')}), ` +
+        'which may take longer and affect output fidelity.'
+      );
+    }
+    if (vcredits === undefined) {
+      warnings.push('The vCredit cost of this conversion was not reported.');
+    }
+
+    return new ConversionPlan(input, output, graph, vcredits, warnings);
+  }
+
+  /**
+   * Order two plans by cost, then by number of steps.
+   *
+   * Plans with an unknown cost are ordered after plans with a known one.
+   *
+   * @param a - First plan.
+   * @param b - Second plan.
+   * @returns A negative number if `a` is cheaper, a positive number if
+   *          `b` is cheaper, or zero if they are equivalent.
+   */
+  static compare(a: ConversionPlan, b: ConversionPlan): number {
+    const costA = a.vcredits ?? Infinity;
+    const costB = b.vcredits ?? Infinity;
+    if (costA !== costB) {
+      return costA < costB ? -1 : 1;
+    }
+    return a.steps.length - b.steps.length;
+  }
+
+  /**
+   * Formats visited from input to output, inclusive.
+   *
+   * @returns The list of formats.
+   */
+  get formats(): string[] {
+    return [this.input, ...this.steps.map(step => step.to)];
+  }
+
+  /**
+   * Compare this plan with another one.
+   *
+   * @param other - The plan to compare with.
+   * @returns A negative number if this plan is cheaper, a positive number
+   *          if the other plan is cheaper, or zero if they are equivalent.
+   */
+  compare(other: ConversionPlan): number {
+    return ConversionPlan.compare(this, other);
+  }
+
+  /**
+   * Describe the plan for humans.
+   *
+   * @returns A multi-line description of the path, cost and warnings.
+   */
+  toString(): string {
+    const cost = this.vcredits === undefined
+      ? 'unknown cost'
+      : `${this.vcredits} vCredit${this.vcredits === 1 ? '' : 's'}`;
+    const count = `${this.steps.length} step${this.steps.length === 1 ? '' : 's'}`;
+    const lines = [`${this.input} -> ${this.output}: ${count}, ${cost}`];
+
+    this.steps.forEach((step, index) => {
+      lines.push(`  ${index + 1}. ${step.from} -> ${step.to}`);
+    });
+    this.warnings.forEach(warning => {
+      lines.push(`  Warning: ${warning}`);
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Serialize the plan as JSON.
+   *
+   * @returns A plain object describing the plan.
+   */
+  toJSON(): {
+    input: string;
+    output: string;
+    steps: ConversionStep[];
+    vcredits?: number;
+    warnings: string[];
+  } {
+    return {
+      input: this.input,
+      output: this.output,
+      steps: this.steps,
+      vcredits: this.vcredits,
+      warnings: this.warnings,
+    };
+  }
+}
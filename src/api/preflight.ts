@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Preflight validation of conversions. Checks the local input and the
+//   requested format pair before anything is uploaded, failing fast with
+//   the same exception classes the API would raise.
+
+import type { FormatCatalog } from './catalog.ts';
+import type { RequestOptions } from './interface.ts';
+import type { Readable } from '../io/protocols.ts';
+import { Config } from '../config/config.ts';
+import { canonicalizeFormat, getExtension } from '../utils/misc.ts';
+import { FormatRegistry } from '../utils/formatRegistry.ts';
+import {
+  EmptyFileError,
+  InputNotFoundError,
+  InvalidInputFormatError,
+  LimitUploadSizeError,
+  NoConverterInputToOutputError,
+  NotMatchExtensionAndInputError
+} from '../common/exceptions.ts';
+
+/**
+ * Options for `Preflight.check`.
+ *
+ * @property matchExtension - Whether to check the filename extension
+ *                            against the input format (default: true).
+ *                            Disable it when the input format was
+ *                            detected from the file content.
+ */
+export interface PreflightOptions extends RequestOptions {
+  matchExtension?: boolean;
+}
+
+/**
+ * Validates conversions before they are started.
+ *
+ * The checks run in order: the input exists, is not empty and is within
+ * the configured upload size limit, its extension matches the declared
+ * input format, and the format catalog lists a converter from the input
+ * format to the output format. Checks that lack the information they
+ * need, such as the size of a stream of unknown length, are skipped.
+ */
+export class Preflight {
+  private readonly catalog: FormatCatalog;
+
+  /**
+   * Create a new Preflight validator.
+   *
+   * @param catalog - Format catalog used to check format pairs.
+   */
+  constructor(catalog: FormatCatalog) {
+    this.catalog = catalog;
+  }
+
+  /**
+   * Validate a conversion.
+   *
+   * @param readable - Input to convert.
+   * @param outputFormat - Desired output format[-type] string.
+   * @param inputFormat - Optional input format[-type] string. If omitted,
+   *                      it is derived from the filename extension.
+   * @param options - Optional request options such as an abort signal,
+   *                  and whether to check the filename extension.
+   * @returns A promise that resolves if the conversion looks valid.
+   * @throws InputNotFoundError - If the input does not exist.
+   * @throws EmptyFileError - If the input is empty.
+   * @throws LimitUploadSizeError - If the input exceeds the size limit.
+   * @throws NotMatchExtensionAndInputError - If the filename extension
+   *                                          contradicts the input format.
+   * @throws InvalidInputFormatError - If the input format is not supported.
+   * @throws NoConverterInputToOutputError - If no converter exists from the
+   *                                         input format to the output format.
+   */
+  async check(
+    readable: Readable,
+    outputFormat: string,
+    inputFormat?: string,
+    options: PreflightOptions = {}
+  ): Promise<void> {
+    const output = canonicalizeFormat(outputFormat) as string;
+    const declared = canonicalizeFormat(inputFormat);
+    const extension = getExtension(readable.filename);
+
+    await this.checkSize(readable);
+
+    if (declared && extension && (options.matchExtension ?? true)) {
+      await this.checkExtension(extension, declared, options);
+    }
+
+    const input = declared ?? extension;
+    if (input) {
+      await this.checkPair(input, output, options);
+    }
+  }
+
+  /**
+   * Check that the input exists, is not empty, and is within the limit.
+   *
+   * @param readable - Input to check.
+   * @returns A promise that resolves if the size is acceptable.
+   */
+  private async checkSize(readable: Readable): Promise<void> {
+    if (readable.exists && !(await readable.exists())) {
+      throw new InputNotFoundError(
+        `Input file not found: ${readable.filename ?? 'unnamed input'}.`
+      );
+    }
+
+    const size = await readable.size?.();
+    if (size === undefined) {
+      return;
+    }
+
+    if (size === 0) {
+      throw new EmptyFileError('The input file is empty.', { code: 'EMPTY_FILE' });
+    }
+
+    const limit: number | null = Config.get('conversionSettings', 'maxUploadSize');
+    if (limit !== null && size > limit) {
+      throw new LimitUploadSizeError(
+        `The input file is ${size} bytes, which exceeds the upload limit of ${limit} bytes.`,
+        { code: 'LIMIT_UPLOAD_SIZE' }
+      );
+    }
+  }
+
+  /**
+   * Check that a filename extension matches the declared input format.
+   *
+   * @param extension - Lowercase filename extension.
+   * @param declared - Declared input format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns A promise that resolves if they match.
+   */
+  private async checkExtension(
+    extension: string,
+    declared: string,
+    options: RequestOptions
+  ): Promise<void> {
+    const format = baseFormat(declared);
+    if (extension === format || FormatRegistry.formatForExtension(extension) === format) {
+      return;
+    }
+
+    const info = await this.catalog.info(declared, options);
+    const extensions = (info.extensions ?? []).map(item => canonicalizeFormat(item));
+    if (!extensions.includes(extension)) {
+      throw new NotMatchExtensionAndInputError(
+        `The .${extension} extension does not match the ${declared} input format.`,
+        { code: 'NOT_MATCH_EXTENSION_AND_INPUT' }
+      );
+    }
+  }
+
+  /**
+   * Check that the catalog lists a converter for a format pair.
+   *
+   * @param input - Input format[-type].
+   * @param output - Output format[-type].
+   * @param options - Optional request options such as an abort signal.
+   * @returns A promise that resolves if the pair is supported.
+   */
+  private async checkPair(input: string, output: string, options: RequestOptions): Promise<void> {
+    const outputs = await this.catalog.outputsFor(input, options);
+    if (!outputs.length) {
+      throw new InvalidInputFormatError(
+        `The ${input} input format is not supported.`,
+        { code: 'INVALID_INPUT_FORMAT' }
+      );
+    }
+
+    if (!outputs.includes(output) && !outputs.includes(baseFormat(output))) {
+      throw new NoConverterInputToOutputError(
+        `There is no converter from ${input} to ${output}.`,
+        { code: 'NO_CONVERTER_INPUT_TO_OUTPUT' }
+      );
+    }
+  }
+}
+
+/**
+ * Strip the type from a format[-type] string.
+ *
+ * @param format - Format[-type] string.
+ * @returns The format name.
+ */
+function baseFormat(format: string): string {
+  return format.split('-')[0]!;
+}
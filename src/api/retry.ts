@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Retry policy for Vertopal API requests. Decides which failures are
+//   retried, how long to wait between attempts (exponential backoff with
+//   optional full jitter and server `Retry-After` support), and reports
+//   every attempt to an optional callback.
+
+import { Config } from '../config/config.ts';
+import {
+  APIException,
+  NotReadyDependentTaskError,
+  TooManyRequestsError
+} from '../common/exceptions.ts';
+
+/**
+ * Constructor type of an error class that may be retried.
+ */
+export type ErrorClass = abstract new (...args: never[]) => Error;
+
+/**
+ * Endpoints whose requests are not safe to repeat, as each accepted
+ * request starts (and bills) a new task.
+ */
+const NON_IDEMPOTENT_ENDPOINTS = ['/convert/file'];
+
+/**
+ * System error codes of connections that failed before a request was
+ * sent.
+ */
+const CONNECT_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Details of a single request attempt, as reported to `onAttempt`.
+ *
+ * @property attempt - One-based number of the attempt.
+ * @property maxAttempts - Maximum number of attempts allowed by the policy.
+ * @property endpoint - API endpoint path of the request.
+ * @property error - The error raised by the attempt, if it failed.
+ * @property willRetry - Whether another attempt will be made.
+ * @property delay - Delay in milliseconds before the next attempt, if any.
+ */
+export interface RetryAttempt {
+  attempt: number;
+  maxAttempts: number;
+  endpoint: string;
+  error?: Error;
+  willRetry: boolean;
+  delay?: number;
+}
+
+/**
+ * Options for creating a `RetryPolicy`.
+ *
+ * @property maxAttempts - Maximum number of attempts, including the first.
+ * @property baseDelay - Base backoff delay in milliseconds.
+ * @property maxDelay - Upper bound for any single delay in milliseconds.
+ * @property jitter - If `true`, apply full jitter to the backoff delay.
+ * @property respectRetryAfter - If `true`, honor the server `Retry-After`
+ *                               header when present.
+ * @property retryOn - Error classes that are retried on every endpoint.
+ *                    If omitted, errors accepted by
+ *                    `APIException.isRetryable` are retried on idempotent
+ *                    endpoints only; see `RetryPolicy.isIdempotent`.
+ * @property shouldRetry - Optional predicate that overrides `retryOn`
+ *                         when it returns a boolean.
+ * @property onAttempt - Optional callback invoked after every attempt.
+ */
+export interface RetryPolicyOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  respectRetryAfter?: boolean;
+  retryOn?: ErrorClass[];
+  shouldRetry?: (error: Error, attempt: number, endpoint?: string) => boolean | undefined;
+  onAttempt?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Retry policy for Vertopal API requests.
+ *
+ * Failed attempts are retried when the error is an instance of one of
+ * the `retryOn` classes, unless a custom `shouldRetry` predicate decides
+ * otherwise. By default, network failures and transient API errors are
+ * retried on idempotent endpoints. Requests that start a conversion are
+ * only retried when the service provably did not start it: rate limits,
+ * dependent tasks that are not ready, and connections that failed
+ * before the request was sent. Delays grow exponentially from `baseDelay`, are
+ * capped at `maxDelay`, and may be randomized with full jitter or
+ * replaced by the server's `Retry-After` value.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  readonly baseDelay: number;
+  readonly maxDelay: number;
+  readonly jitter: boolean;
+  readonly respectRetryAfter: boolean;
+  readonly retryOn?: ErrorClass[];
+  private readonly _shouldRetry?: RetryPolicyOptions['shouldRetry'];
+  private readonly _onAttempt?: RetryPolicyOptions['onAttempt'];
+
+  /**
+   * Create a new RetryPolicy.
+   *
+   * @param options - Policy options; missing values are loaded from
+   *                  the `connectionSettings` configuration section.
+   * @throws Error - If `maxAttempts` is not a positive integer.
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts =
+      options.maxAttempts ?? Config.get('connectionSettings', 'retries');
+    this.baseDelay =
+      options.baseDelay ?? Config.get('connectionSettings', 'retryBaseDelay');
+    this.maxDelay =
+      options.maxDelay ?? Config.get('connectionSettings', 'retryMaxDelay');
+    this.jitter =
+      options.jitter ?? Config.get('connectionSettings', 'retryJitter');
+    this.respectRetryAfter =
+      options.respectRetryAfter ??
+      Config.get('connectionSettings', 'respectRetryAfter');
+    this.retryOn = options.retryOn;
+    this._shouldRetry = options.shouldRetry;
+    this._onAttempt = options.onAttempt;
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new Error('`maxAttempts` must be a positive integer.');
+    }
+  }
+
+  /**
+   * Decide whether a failed attempt should be retried.
+   *
+   * @param error - The error raised by the attempt.
+   * @param attempt - One-based number of the failed attempt.
+   * @param endpoint - Optional API endpoint path of the request.
+   * @returns `true` if another attempt should be made.
+   */
+  shouldRetry(error: Error, attempt: number, endpoint?: string): boolean {
+    if (attempt >= this.maxAttempts) {
+      return false;
+    }
+
+    const decision = this._shouldRetry?.(error, attempt, endpoint);
+    if (typeof decision === 'boolean') {
+      return decision;
+    }
+
+    if (this.retryOn) {
+      return this.retryOn.some(cls => error instanceof cls);
+    }
+    return APIException.isRetryable(error) && (
+      RetryPolicy.isIdempotent(endpoint) ||
+      error instanceof TooManyRequestsError ||
+      error instanceof NotReadyDependentTaskError ||
+      (error instanceof APIException && error.httpStatus === 429) ||
+      RetryPolicy.isUndelivered(error)
+    );
+  }
+
+  /**
+   * Compute the delay before the next attempt.
+   *
+   * @param attempt - One-based number of the failed attempt.
+   * @param retryAfter - Optional raw `Retry-After` header value.
+   * @returns Delay in milliseconds.
+   */
+  getDelay(attempt: number, retryAfter?: string | null): number {
+    if (this.respectRetryAfter && retryAfter) {
+      const serverDelay = RetryPolicy.parseRetryAfter(retryAfter);
+      if (serverDelay !== undefined) {
+        return Math.min(serverDelay, this.maxDelay);
+      }
+    }
+
+    const delay = Math.min(this.baseDelay * 2 ** attempt, this.maxDelay);
+    return this.jitter ? Math.floor(Math.random() * delay) : delay;
+  }
+
+  /**
+   * Report an attempt to the `onAttempt` callback, if one is set.
+   *
+   * @param attempt - Details of the attempt.
+   * @returns Void.
+   */
+  report(attempt: RetryAttempt): void {
+    this._onAttempt?.(attempt);
+  }
+
+  /**
+   * Check whether repeating a request to an endpoint is safe.
+   *
+   * @param endpoint - Optional API endpoint path; unknown endpoints are
+   *                   treated as idempotent.
+   * @returns `false` for endpoints that start a new task per request,
+   *          such as `/convert/file`.
+   */
+  static isIdempotent(endpoint?: string): boolean {
+    return !endpoint || !NON_IDEMPOTENT_ENDPOINTS.includes(endpoint);
+  }
+
+  /**
+   * Check whether a request failed before it was sent, so the server
+   * cannot have received it.
+   *
+   * Looks for a connection error, such as a refused connection or an
+   * unknown host, in the error and its causes. Timeouts and dropped
+   * connections do not count, as the server may have received the
+   * request.
+   *
+   * @param error - Any thrown value.
+   * @returns `true` if the request provably never reached the server.
+   */
+  static isUndelivered(error: unknown): boolean {
+    const seen = new Set<unknown>();
+    let current = error;
+    while (current instanceof Error && !seen.has(current)) {
+      seen.add(current);
+
+      const code = (current as NodeJS.ErrnoException).code;
+      if (typeof code === 'string' && CONNECT_ERROR_CODES.includes(code)) {
+        return true;
+      }
+      if (current instanceof AggregateError) {
+        return current.errors.length > 0 &&
+          current.errors.every(inner => RetryPolicy.isUndelivered(inner));
+      }
+      current = current.cause;
+    }
+    return false;
+  }
+
+  /**
+   * Parse a `Retry-After` header value.
+   *
+   * Supports both the delay-seconds and the HTTP-date forms.
+   *
+   * @param value - Raw header value.
+   * @returns Delay in milliseconds, or `undefined` if unparseable.
+   */
+  static parseRetryAfter(value: string): number | undefined {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+  }
+}
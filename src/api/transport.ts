@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   HTTP transport abstraction for Vertopal API requests. Defines the
+//   normalized request and response shapes exchanged with `Interface`,
+//   and the default `FetchTransport` built on the native fetch API.
+
+import type { MultipartFile } from '../utils/multipart.ts';
+import { MultipartEncoder, readMultipartFile } from '../utils/multipart.ts';
+import { isNode } from '../utils/misc.ts';
+
+export type { MultipartFile };
+
+/**
+ * Normalized HTTP request handed to a `Transport`.
+ *
+ * @property url - Absolute request URL.
+ * @property method - HTTP method ('GET' or 'POST').
+ * @property headers - Request headers, including authorization.
+ * @property fields - Multipart string fields.
+ * @property files - Multipart file parts.
+ * @property signal - Signal aborted on timeout or caller cancellation.
+ */
+export interface TransportRequest {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  fields: Record<string, string>;
+  files: Record<string, MultipartFile>;
+  signal: AbortSignal;
+}
+
+/**
+ * Normalized HTTP response returned by a `Transport`.
+ *
+ * The native fetch `Response` satisfies this interface, so custom
+ * transports may simply return `new Response(...)`.
+ */
+export interface TransportResponse {
+  /**
+   * HTTP status code.
+   */
+  readonly status: number;
+
+  /**
+   * HTTP status text, if available.
+   */
+  readonly statusText: string;
+
+  /**
+   * Response headers.
+   */
+  readonly headers: Headers;
+
+  /**
+   * Response body stream, or `null` if there is no body.
+   */
+  readonly body: ReadableStream<Uint8Array> | null;
+
+  /**
+   * Read the body and parse it as JSON.
+   */
+  json(): Promise<unknown>;
+
+  /**
+   * Read the body as text.
+   */
+  text(): Promise<string>;
+}
+
+/**
+ * Contract for objects that deliver Vertopal API requests.
+ *
+ * Implementations receive a fully prepared `TransportRequest` and must
+ * return a `TransportResponse`, or reject if the request could not be
+ * delivered. Rejections are treated as network failures and are subject
+ * to the client's retry policy.
+ */
+export interface Transport {
+  /**
+   * Send a request and resolve with its response.
+   */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Default transport using the native fetch API.
+ *
+ * Files backed by a `Blob` are attached to a `FormData` body as-is.
+ * Other file streams are encoded into a streaming multipart body on
+ * Node.js, so file contents are never fully buffered in memory. In
+ * other environments, which generally lack support for streamed
+ * request bodies, the stream is collected into a `Blob` instead.
+ */
+export class FetchTransport implements Transport {
+
+  /**
+   * Send a request using the global `fetch` function.
+   *
+   * @param request - The normalized request to send.
+   * @returns The fetch `Response`.
+   */
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const body = await this.buildBody(request.fields, request.files);
+
+    const init: RequestInit & { duplex?: 'half' } = {
+      method: request.method,
+      headers: {
+        ...request.headers,
+        ...body.headers,
+      },
+      signal: request.signal,
+      body: body.body,
+    };
+    if (body.streamed) {
+      // Node's fetch requires half-duplex mode for streamed request bodies.
+      init.duplex = 'half';
+    }
+
+    return await fetch(request.url, init);
+  }
+
+  /**
+   * Build the multipart request body for the given fields.
+   *
+   * @param data - Multipart string fields.
+   * @param files - Multipart file parts.
+   * @returns The request body, any headers it requires, and whether
+   *          the body is streamed.
+   */
+  private async buildBody(
+    data: Record<string, string>,
+    files: Record<string, MultipartFile>
+  ): Promise<{ body: BodyInit; headers: Record<string, string>; streamed: boolean }> {
+    const streamable = Object.values(files).some(file => !file.blob);
+
+    if (streamable && isNode()) {
+      const encoder = new MultipartEncoder(data, files);
+      return {
+        body: encoder.stream(),
+        headers: { 'Content-Type': encoder.contentType },
+        streamed: true,
+      };
+    }
+
+    const formData = new FormData();
+    for (const [fieldName, value] of Object.entries(data)) {
+      formData.append(fieldName, value);
+    }
+
+    for (const [fieldName, file] of Object.entries(files)) {
+      if (file.blob) {
+        formData.append(fieldName, file.blob, file.filename);
+        continue;
+      }
+
+      const contents = await readMultipartFile(file);
+      const blob = new Blob([contents as BlobPart], { type: file.contentType });
+      formData.append(fieldName, blob, file.filename);
+    }
+
+    return { body: formData, headers: {}, streamed: false };
+  }
+}
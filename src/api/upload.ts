@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Shared upload of a conversion input. An `UploadSession` uploads a
+//   readable once and hands its connector to every conversion of the
+//   input, uploading it again if the connector expires.
+
+import type { API } from './v1.ts';
+import type { Readable } from '../io/protocols.ts';
+import {
+  FileNotExistsError,
+  NoConnectorDependentTaskError
+} from '../common/exceptions.ts';
+
+/**
+ * Upload of a readable shared by several conversions.
+ *
+ * The input is uploaded on first use. Re-uploading opens the readable
+ * again, so it must support being opened more than once, as with
+ * `FileInput` and `BrowserFileInput`.
+ */
+export class UploadSession {
+  private readonly client: API;
+  private readonly readable: Readable;
+  private readonly signal?: AbortSignal;
+  private current?: Promise<string>;
+
+  /**
+   * Create a new UploadSession.
+   *
+   * @param client - API client used for uploads.
+   * @param readable - Input to upload.
+   * @param signal - Optional `AbortSignal` that cancels uploads.
+   */
+  constructor(client: API, readable: Readable, signal?: AbortSignal) {
+    this.client = client;
+    this.readable = readable;
+    this.signal = signal;
+  }
+
+  /**
+   * Check whether an error means an upload connector has expired.
+   *
+   * @param error - Error raised by a request using the connector.
+   * @returns `true` if the input should be uploaded again.
+   */
+  static isExpired(error: unknown): boolean {
+    return error instanceof FileNotExistsError || error instanceof NoConnectorDependentTaskError;
+  }
+
+  /**
+   * Get the connector of the uploaded input, uploading it if needed.
+   *
+   * @returns The upload connector.
+   */
+  connector(): Promise<string> {
+    if (!this.current) {
+      const upload = this.upload();
+      this.current = upload;
+      // Let the next caller try again if the upload failed.
+      upload.catch(() => {
+        if (this.current === upload) {
+          this.current = undefined;
+        }
+      });
+    }
+    return this.current;
+  }
+
+  /**
+   * Upload the input again after a connector expired.
+   *
+   * Conversions that find the same connector expired share one new
+   * upload.
+   *
+   * @param expired - The connector that expired.
+   * @returns The new upload connector.
+   */
+  async refresh(expired: string): Promise<string> {
+    const current = this.current;
+    const connector = await current?.catch(() => undefined);
+    if (connector === expired && this.current === current) {
+      this.current = undefined;
+    }
+    return this.connector();
+  }
+
+  /**
+   * Upload the input.
+   *
+   * @returns The upload connector.
+   */
+  private async upload(): Promise<string> {
+    const response = await this.client.uploadFile(
+      this.readable,
+      undefined,
+      { signal: this.signal }
+    );
+    return response.result.output.connector;
+  }
+}
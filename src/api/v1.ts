@@ -12,11 +12,58 @@
 //   response handling.
 
 import { Credential } from './credential.ts';
-import { Interface } from './interface.ts';
+import {
+  Interface,
+  type InterfaceOptions,
+  type RequestOptions
+} from './interface.ts';
 import { InterfaceStrategyMode, InterfaceSublistMode } from '../common/enums.ts';
-import type { Readable, Writable, BrowserWritableStream } from '../io/protocols.ts';
+import type {
+  Readable,
+  BlobReadable,
+  Writable,
+  BrowserWritableStream
+} from '../io/protocols.ts';
 import { StreamChunker } from '../utils/streamChunker.ts'
+import type { MultipartFile } from '../utils/multipart.ts';
+import type { TransportResponse } from './transport.ts';
 import { Config } from '../config/config.ts';
+import {
+  validateUploadFileResponse,
+  validateConvertFileResponse,
+  validateConvertStatusResponse,
+  validateTaskResponse,
+  validateDownloadUrlResponse,
+  validateFormatGetResponse,
+  validateConvertGraphResponse,
+  validateConvertFormatsResponse,
+  type UploadFileResponse,
+  type ConvertFileResponse,
+  type ConvertStatusResponse,
+  type TaskResponse,
+  type DownloadUrlResponse,
+  type FormatGetResponse,
+  type ConvertGraphResponse,
+  type ConvertFormatsResponse,
+} from './models.ts';
+import { throwIfAborted } from '../utils/misc.ts';
+import {
+  validateConversionParameters,
+  type ConversionParameters
+} from './options.ts';
+
+/**
+ * Options accepted by `API.convertFile`.
+ *
+ * @property callback - Optional URL the service notifies with the task
+ *                      response once the conversion is completed.
+ * @property parameters - Optional converter settings sent alongside the
+ *                        input and output formats.
+ */
+export interface ConvertFileOptions extends RequestOptions {
+  callback?: string;
+  parameters?: ConversionParameters;
+}
 
 /**
  * High-level API client for Vertopal public API (v1).
@@ -35,9 +82,11 @@ export class API extends Interface {
    *
    * @param credential - Optional `Credential` instance. If not provided,
    *                     credentials are loaded from configuration.
+   * @param options - Optional client options such as a retry policy,
+   *                  transport, or interceptors.
    */
-  constructor(credential?: Credential) {
-    super(credential);
+  constructor(credential?: Credential, options?: InterfaceOptions) {
+    super(credential, options);
     this.version = 1;
   }
 
@@ -45,31 +94,37 @@ export class API extends Interface {
    * Upload a file to Vertopal for processing.
    *
    * @param readable - A `Readable` object providing file stream access.
+   *                   It is opened again for each retried attempt.
    * @param chunkSize - Optional size of chunks in bytes; defaults to configuration.
-   * @returns Response object containing upload details.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing upload details.
    */
-  async uploadFile(readable: Readable, chunkSize?: number): Promise<any> {
+  async uploadFile(
+    readable: Readable,
+    chunkSize?: number,
+    options: RequestOptions = {}
+  ): Promise<UploadFileResponse> {
     const streamChunkSize =
       chunkSize ?? Config.get('connectionSettings', 'streamChunkSize');
 
     const filename = readable.filename || 'upload.bin';
     const contentType = readable.contentType || 'application/octet-stream';
 
-    const stream = await readable.open();
+    // Blob-backed inputs are attached as-is; others are streamed. The
+    // stream is opened for each attempt, as a retry cannot reuse one
+    // that an earlier attempt already consumed.
+    const file = async (): Promise<MultipartFile> => 'blob' in readable
+      ? { blob: (readable as BlobReadable).blob, filename, contentType, chunkSize: streamChunkSize }
+      : { stream: await readable.open(), filename, contentType, chunkSize: streamChunkSize };
 
     const response = await this.sendRequest('/upload/file', 'POST', {
       data: JSON.stringify({
         app: this._credential.app
       }),
-      file: {
-        stream: stream,
-        filename: filename,
-        contentType: contentType,
-        chunkSize: streamChunkSize
-      },
-    }, this.longTimeout);
+      file: file,
+    }, this.longTimeout, undefined, options);
 
-    return response;
+    return validateUploadFileResponse(response);
   }
 
   /**
@@ -79,17 +134,25 @@ export class API extends Interface {
    * @param outputFormat - Desired output format[-type] string.
    * @param inputFormat - Optional input format[-type] string.
    * @param mode - Conversion strategy mode (default: ASYNC).
-   * @returns Response object containing conversion task details.
+   * @param options - Optional request options such as an abort signal,
+   *                  a callback URL, or conversion parameters.
+   * @returns Validated response containing conversion task details.
+   * @throws InvalidParameterError - If a conversion parameter name is invalid.
+   * @throws WrongTypeParameterError - If a conversion parameter value has
+   *                                   the wrong type.
    */
   async convertFile(
     connector: string,
     outputFormat: string,
     inputFormat?: string,
-    mode: InterfaceStrategyMode = InterfaceStrategyMode.ASYNC
-  ): Promise<any> {
-    const parameters = inputFormat
-      ? { input: inputFormat, output: outputFormat }
-      : { output: outputFormat };
+    mode: InterfaceStrategyMode = InterfaceStrategyMode.ASYNC,
+    options: ConvertFileOptions = {}
+  ): Promise<ConvertFileResponse> {
+    const parameters = {
+      ...validateConversionParameters(options.parameters ?? {}),
+      ...(inputFormat ? { input: inputFormat } : {}),
+      output: outputFormat,
+    };
 
     const response = await this.sendRequest('/convert/file', 'POST', {
       data: JSON.stringify({
@@ -98,63 +161,76 @@ export class API extends Interface {
         include: ['result', 'entity'],
         mode: mode,
         parameters,
+        ...(options.callback ? { callback: options.callback } : {}),
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateConvertFileResponse(response);
   }
 
   /**
    * Check the status of a conversion.
    *
    * @param connector - Connector ID referencing the conversion task.
-   * @returns Response object containing conversion status.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing conversion status.
    */
-  async convertStatus(connector: string): Promise<any> {
+  async convertStatus(
+    connector: string,
+    options: RequestOptions = {}
+  ): Promise<ConvertStatusResponse> {
     const response = await this.sendRequest('/convert/status', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
         connector,
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateConvertStatusResponse(response);
   }
 
   /**
    * Retrieve the response of a task.
    *
    * @param connector - Connector ID referencing the task.
-   * @returns Response object containing task results.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing task results.
    */
-  async taskResponse(connector: string): Promise<any> {
+  async taskResponse(
+    connector: string,
+    options: RequestOptions = {}
+  ): Promise<TaskResponse> {
     const response = await this.sendRequest('/task/response', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
         connector,
         include: ['result'],
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateTaskResponse(response);
   }
 
   /**
    * Request a download URL for a converted file.
    *
    * @param connector - Connector ID referencing the conversion task.
-   * @returns Response object containing download URL.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing download URL.
    */
-  async downloadUrl(connector: string): Promise<any> {
+  async downloadUrl(
+    connector: string,
+    options: RequestOptions = {}
+  ): Promise<DownloadUrlResponse> {
     const response = await this.sendRequest('/download/url', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
         connector,
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
 
-    return response;
+    return validateDownloadUrlResponse(response);
   }
 
   /**
@@ -163,39 +239,52 @@ export class API extends Interface {
    * @param writable - A `Writable` object providing output stream access.
    * @param connector - Connector ID referencing the download URL task.
    * @param chunkSize - Optional size of chunks in bytes; defaults to configuration.
+   * @param options - Optional request options such as an abort signal.
    * @returns A promise that resolves when the file is downloaded
    *          and written to the stream.
    */
   async downloadUrlGet(
     writable: Writable,
     connector: string,
-    chunkSize?: number
+    chunkSize?: number,
+    options: RequestOptions = {}
   ): Promise<void> {
     const streamChunkSize =
       chunkSize ?? Config.get('connectionSettings', 'streamChunkSize');
 
+    // JSON responses of this endpoint are raised as errors, so the
+    // result is always the raw response.
     const response = await this.sendRequest('/download/url/get', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
         connector,
       }),
-    }, this.longTimeout);
+    }, this.longTimeout, undefined, options) as TransportResponse;
 
     const stream = response.body;
     if (!stream) return;
 
     const output = await writable.open();
     const chunkedStream = new StreamChunker(stream, streamChunkSize, output)
-    await chunkedStream.process() as (NodeJS.WritableStream | BrowserWritableStream)
+    try {
+      await chunkedStream.process() as (NodeJS.WritableStream | BrowserWritableStream)
+    } catch (error) {
+      throwIfAborted(options.signal);
+      throw error;
+    }
   }
 
   /**
    * Retrieve metadata for a specific format.
    *
    * @param formatName - Format[-type] identifier to query.
-   * @returns Response object containing format details.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing format details.
    */
-  async formatGet(formatName: string): Promise<any> {
+  async formatGet(
+    formatName: string,
+    options: RequestOptions = {}
+  ): Promise<FormatGetResponse> {
     const response = await this.sendRequest('/format/get', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
@@ -203,9 +292,9 @@ export class API extends Interface {
           format: formatName,
         }
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateFormatGetResponse(response);
   }
 
   /**
@@ -213,12 +302,14 @@ export class API extends Interface {
    *
    * @param inputFormat - Source format[-type] string.
    * @param outputFormat - Target format[-type] string.
-   * @returns Response object containing conversion graph details.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing conversion graph details.
    */
   async convertGraph(
     inputFormat: string,
-    outputFormat: string
-  ): Promise<any> {
+    outputFormat: string,
+    options: RequestOptions = {}
+  ): Promise<ConvertGraphResponse> {
     const response = await this.sendRequest('/convert/graph', 'POST', {
       data: JSON.stringify({
         app: this._credential.app,
@@ -227,9 +318,9 @@ export class API extends Interface {
           output: outputFormat,
         },
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateConvertGraphResponse(response);
   }
 
   /**
@@ -237,13 +328,15 @@ export class API extends Interface {
    *
    * @param sublist - Mode specifying whether to list inputs or outputs.
    * @param formatName - Optional format[-type] to filter results.
-   * @returns Response object containing available formats.
+   * @param options - Optional request options such as an abort signal.
+   * @returns Validated response containing available formats.
    * @throws Error - If `sublist` is not a valid `InterfaceSublistMode`.
    */
   async convertFormats(
     sublist: InterfaceSublistMode,
-    formatName?: string
-  ): Promise<any> {
+    formatName?: string,
+    options: RequestOptions = {}
+  ): Promise<ConvertFormatsResponse> {
     if (!Object.values(InterfaceSublistMode).includes(sublist)) {
       throw new Error(
         '`sublist` must be either InterfaceSublistMode.INPUTS or InterfaceSublistMode.OUTPUTS.'
@@ -262,8 +355,8 @@ export class API extends Interface {
         app: this._credential.app,
         parameters,
       }),
-    }, this.defaultTimeout);
+    }, this.defaultTimeout, undefined, options);
 
-    return response;
+    return validateConvertFormatsResponse(response, sublist);
   }
 }
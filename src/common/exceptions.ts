@@ -9,14 +9,157 @@
 //   These classes provide a structured way to represent and handle
 //   errors that occur during API operations or internal processes.
 
+/**
+ * Structured details attached to a Vertopal exception.
+ *
+ * @property code - API error code (e.g. "INVALID_CREDENTIAL").
+ * @property httpStatus - HTTP status code of the response.
+ * @property endpoint - API endpoint path of the request.
+ * @property requestId - Request identifier reported by the server.
+ * @property attempt - One-based number of the attempt that failed.
+ * @property response - Raw response body, if any.
+ * @property warnings - Warnings reported alongside the error.
+ * @property cause - Underlying error or value that caused this one.
+ */
+export interface APIExceptionDetails {
+  code?: string;
+  httpStatus?: number;
+  endpoint?: string;
+  requestId?: string;
+  attempt?: number;
+  response?: unknown;
+  warnings?: Record<string, string>[];
+  cause?: unknown;
+}
+
+/**
+ * Broad category of a Vertopal exception, used to decide how to react
+ * to it without checking individual exception classes.
+ */
+export type ErrorCategory =
+  | 'transient'
+  | 'network'
+  | 'authentication'
+  | 'quota'
+  | 'input'
+  | 'format'
+  | 'parameter'
+  | 'request'
+  | 'callback'
+  | 'connector'
+  | 'unknown';
+
+/**
+ * Plain-object form of a Vertopal exception, as produced by `toJSON()`.
+ */
+export interface SerializedAPIException
+  extends Omit<HTTPResponseErrorDetails, 'cause'>,
+    Omit<PipelineStepErrorDetails, 'cause'>,
+    Omit<ConversionBatchErrorDetails, 'cause'> {
+  name: string;
+  message: string;
+  category?: ErrorCategory;
+  stack?: string;
+  cause?: unknown;
+}
+
 /**
  * Base exception for Vertopal library errors.
  * Catching `APIException` handles any custom exception raised by this package.
+ *
+ * Besides the message, exceptions carry structured details such as the
+ * API error code, HTTP status and endpoint, and can be serialized with
+ * `toJSON()` and rehydrated with `ExceptionHandler.fromJSON()`.
  */
 export class APIException extends Error {
-  constructor(message?: string) {
-    super(message);
+  readonly code?: string;
+  readonly httpStatus?: number;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly attempt?: number;
+  readonly response?: unknown;
+  readonly warnings: Record<string, string>[];
+
+  constructor(message?: string, details: APIExceptionDetails = {}) {
+    super(message, 'cause' in details ? { cause: details.cause } : undefined);
     this.name = 'APIException';
+    this.code = details.code;
+    this.httpStatus = details.httpStatus;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.attempt = details.attempt;
+    this.response = details.response;
+    this.warnings = details.warnings ?? [];
+  }
+
+  /**
+   * Broad category of the exception.
+   *
+   * @returns The category; overridden by the category parent classes.
+   */
+  get category(): ErrorCategory {
+    return 'unknown';
+  }
+
+  /**
+   * Check whether an error is likely to succeed when retried later.
+   *
+   * @param error - Any thrown value.
+   * @returns `true` for transient API and HTTP errors and network failures.
+   */
+  static isRetryable(error: unknown): boolean {
+    return (
+      error instanceof APIException &&
+      (error.category === 'transient' || error.category === 'network')
+    );
+  }
+
+  /**
+   * Check whether an error can be fixed by the end user, for example by
+   * choosing another file or format, or by upgrading their plan.
+   *
+   * @param error - Any thrown value.
+   * @returns `true` for authentication, quota, input, format, parameter
+   *          and callback errors, and for missing input files.
+   */
+  static isUserFixable(error: unknown): boolean {
+    return (
+      error instanceof AuthenticationError ||
+      error instanceof QuotaError ||
+      error instanceof InputFileError ||
+      error instanceof FormatError ||
+      error instanceof ParameterError ||
+      error instanceof CallbackError ||
+      error instanceof InputNotFoundError
+    );
+  }
+
+  /**
+   * Serialize the exception to a plain JSON-compatible object.
+   *
+   * @returns The serialized exception, including its class name,
+   *          structured details and cause.
+   */
+  toJSON(): SerializedAPIException {
+    const cause = this.cause;
+    return {
+      name: this.name,
+      message: this.message,
+      category: this.category,
+      code: this.code,
+      httpStatus: this.httpStatus,
+      endpoint: this.endpoint,
+      requestId: this.requestId,
+      attempt: this.attempt,
+      response: this.response,
+      warnings: this.warnings,
+      stack: this.stack,
+      cause: cause instanceof APIException
+        ? cause.toJSON()
+        : cause instanceof Error
+          ? { name: cause.name, message: cause.message, stack: cause.stack }
+          : cause,
+    };
   }
 }
 
@@ -24,8 +167,8 @@ export class APIException extends Error {
  * An unknown error occurred.
  */
 export class OtherError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'OtherError';
   }
 }
@@ -34,28 +177,36 @@ export class OtherError extends APIException {
  * Input file not found on the disk.
  */
 export class InputNotFoundError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InputNotFoundError';
   }
+
+  get category(): ErrorCategory {
+    return 'input';
+  }
 }
 
 /**
  * There is a problem in connecting to the network.
  */
 export class NetworkConnectionError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NetworkConnectionError';
   }
+
+  get category(): ErrorCategory {
+    return 'network';
+  }
 }
 
 /**
  * The parent class of the HTTP response of the API.
  */
 export class APIResponseError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'APIResponseError';
   }
 }
@@ -64,8 +215,8 @@ export class APIResponseError extends APIException {
  * The HTTP response is invalid and cannot be decoded to JSON.
  */
 export class InvalidJSONResponseError extends APIResponseError {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidJSONResponseError';
   }
 }
@@ -74,19 +225,148 @@ export class InvalidJSONResponseError extends APIResponseError {
  * The parent class of the different API-level errors.
  */
 export class APIError extends APIResponseError {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'APIError';
   }
 }
 
+/**
+ * The parent class of temporary API errors that may succeed when
+ * the request is retried later, such as rate limits and server errors.
+ */
+export class TransientError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'TransientError';
+  }
+
+  get category(): ErrorCategory {
+    return 'transient';
+  }
+}
+
+/**
+ * The parent class of authentication and authorization errors.
+ */
+export class AuthenticationError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'AuthenticationError';
+  }
+
+  get category(): ErrorCategory {
+    return 'authentication';
+  }
+}
+
+/**
+ * The parent class of plan, credit and usage limit errors.
+ */
+export class QuotaError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'QuotaError';
+  }
+
+  get category(): ErrorCategory {
+    return 'quota';
+  }
+}
+
+/**
+ * The parent class of errors caused by the input file itself.
+ */
+export class InputFileError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'InputFileError';
+  }
+
+  get category(): ErrorCategory {
+    return 'input';
+  }
+}
+
+/**
+ * The parent class of invalid or unsupported format errors.
+ */
+export class FormatError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'FormatError';
+  }
+
+  get category(): ErrorCategory {
+    return 'format';
+  }
+}
+
+/**
+ * The parent class of invalid conversion parameter errors.
+ */
+export class ParameterError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'ParameterError';
+  }
+
+  get category(): ErrorCategory {
+    return 'parameter';
+  }
+}
+
+/**
+ * The parent class of malformed request errors.
+ * These usually indicate a problem in the client rather than its input.
+ */
+export class RequestError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'RequestError';
+  }
+
+  get category(): ErrorCategory {
+    return 'request';
+  }
+}
+
+/**
+ * The parent class of callback URL errors.
+ */
+export class CallbackError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'CallbackError';
+  }
+
+  get category(): ErrorCategory {
+    return 'callback';
+  }
+}
+
+/**
+ * The parent class of errors about connectors of missing, expired
+ * or mismatched tasks.
+ */
+export class ConnectorError extends APIError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'ConnectorError';
+  }
+
+  get category(): ErrorCategory {
+    return 'connector';
+  }
+}
+
 /**
  * The server returned an HTTP 500 error. This is a server error.
  * Please contact us at vertopal.com if the problem persists.
  */
-export class InternalServerError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InternalServerError extends TransientError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InternalServerError';
   }
 }
@@ -94,9 +374,9 @@ export class InternalServerError extends APIError {
 /**
  * The API Endpoint is not found.
  */
-export class NotFoundError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NotFoundError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NotFoundError';
   }
 }
@@ -104,9 +384,9 @@ export class NotFoundError extends APIError {
 /**
  * Only the HTTP POST method is allowed.
  */
-export class PostMethodAllowedError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class PostMethodAllowedError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'PostMethodAllowedError';
   }
 }
@@ -114,9 +394,9 @@ export class PostMethodAllowedError extends APIError {
 /**
  * The Authorization header is required.
  */
-export class MissingAuthorizationHeaderError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MissingAuthorizationHeaderError extends AuthenticationError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MissingAuthorizationHeaderError';
   }
 }
@@ -124,9 +404,9 @@ export class MissingAuthorizationHeaderError extends APIError {
 /**
  * The Authorization header is invalid.
  */
-export class InvalidAuthorizationHeaderError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidAuthorizationHeaderError extends AuthenticationError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidAuthorizationHeaderError';
   }
 }
@@ -134,9 +414,9 @@ export class InvalidAuthorizationHeaderError extends APIError {
 /**
  * The `[NAME]` field is invalid.
  */
-export class InvalidFieldError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidFieldError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidFieldError';
   }
 }
@@ -144,9 +424,9 @@ export class InvalidFieldError extends APIError {
 /**
  * The `[NAME]` field is required.
  */
-export class MissingRequiredFieldError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MissingRequiredFieldError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MissingRequiredFieldError';
   }
 }
@@ -154,9 +434,9 @@ export class MissingRequiredFieldError extends APIError {
 /**
  * The `[NAME]` field has the wrong type.
  */
-export class WrongTypeFieldError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongTypeFieldError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongTypeFieldError';
   }
 }
@@ -164,9 +444,9 @@ export class WrongTypeFieldError extends APIError {
 /**
  * The `[NAME]` key in the data is invalid.
  */
-export class InvalidDataKeyError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidDataKeyError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidDataKeyError';
   }
 }
@@ -174,9 +454,9 @@ export class InvalidDataKeyError extends APIError {
 /**
  * The `[NAME]` key in the data is required.
  */
-export class MissingRequiredDataKeyError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MissingRequiredDataKeyError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MissingRequiredDataKeyError';
   }
 }
@@ -184,9 +464,9 @@ export class MissingRequiredDataKeyError extends APIError {
 /**
  * The `[NAME]` key in the data has the wrong type.
  */
-export class WrongTypeDataKeyError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongTypeDataKeyError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongTypeDataKeyError';
   }
 }
@@ -194,9 +474,9 @@ export class WrongTypeDataKeyError extends APIError {
 /**
  * The `[NAME]` key in the data has the wrong value.
  */
-export class WrongValueDataKeyError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongValueDataKeyError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongValueDataKeyError';
   }
 }
@@ -204,9 +484,9 @@ export class WrongValueDataKeyError extends APIError {
 /**
  * The access credential is invalid.
  */
-export class InvalidCredentialError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidCredentialError extends AuthenticationError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidCredentialError';
   }
 }
@@ -214,9 +494,9 @@ export class InvalidCredentialError extends APIError {
 /**
  * To use Vertopal API, activating a premium plan is required.
  */
-export class FreePlanDisallwedError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class FreePlanDisallwedError extends QuotaError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'FreePlanDisallwedError';
   }
 }
@@ -224,19 +504,29 @@ export class FreePlanDisallwedError extends APIError {
 /**
  * You do not have enough vCredits to run this task.
  */
-export class InsufficentVCreditsError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InsufficentVCreditsError extends QuotaError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InsufficentVCreditsError';
   }
 }
 
+/**
+ * The task would exceed a vCredit cap of the attached `CreditBudget`.
+ */
+export class CreditBudgetExceededError extends QuotaError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'CreditBudgetExceededError';
+  }
+}
+
 /**
  * The callback is invalid.
  */
-export class InvalidCallbackError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidCallbackError extends CallbackError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidCallbackError';
   }
 }
@@ -244,9 +534,9 @@ export class InvalidCallbackError extends APIError {
 /**
  * The domain of callback is not verified.
  */
-export class UnverifiedDomainCallbackError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class UnverifiedDomainCallbackError extends CallbackError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'UnverifiedDomainCallbackError';
   }
 }
@@ -254,9 +544,9 @@ export class UnverifiedDomainCallbackError extends APIError {
 /**
  * The Connector is not dependent on any other Task.
  */
-export class NoConnectorDependentTaskError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NoConnectorDependentTaskError extends ConnectorError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NoConnectorDependentTaskError';
   }
 }
@@ -264,9 +554,9 @@ export class NoConnectorDependentTaskError extends APIError {
 /**
  * The dependent task has not been completed correctly.
  */
-export class NotReadyDependentTaskError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NotReadyDependentTaskError extends TransientError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NotReadyDependentTaskError';
   }
 }
@@ -275,9 +565,9 @@ export class NotReadyDependentTaskError extends APIError {
  * The dependent task API version is mismatched
  * with the current task API version.
  */
-export class MismatchVersionDependentTaskError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MismatchVersionDependentTaskError extends ConnectorError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MismatchVersionDependentTaskError';
   }
 }
@@ -285,9 +575,9 @@ export class MismatchVersionDependentTaskError extends APIError {
 /**
  * The dependent task is mismatched with the current task.
  */
-export class MismatchDependentTaskError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MismatchDependentTaskError extends ConnectorError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MismatchDependentTaskError';
   }
 }
@@ -295,9 +585,9 @@ export class MismatchDependentTaskError extends APIError {
 /**
  * The `[STATE]` file not exists.
  */
-export class FileNotExistsError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class FileNotExistsError extends ConnectorError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'FileNotExistsError';
   }
 }
@@ -305,9 +595,9 @@ export class FileNotExistsError extends APIError {
 /**
  * The download of this converted file has expired.
  */
-export class DownloadExpiredError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class DownloadExpiredError extends ConnectorError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'DownloadExpiredError';
   }
 }
@@ -316,9 +606,9 @@ export class DownloadExpiredError extends APIError {
  * Only request of files with the registered hash
  * is allowed in the development mode.
  */
-export class OnlyDevelopmentRequestError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class OnlyDevelopmentRequestError extends RequestError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'OnlyDevelopmentRequestError';
   }
 }
@@ -326,9 +616,9 @@ export class OnlyDevelopmentRequestError extends APIError {
 /**
  * The `[NAME]` parameter is invalid.
  */
-export class InvalidParameterError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidParameterError extends ParameterError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidParameterError';
   }
 }
@@ -336,9 +626,9 @@ export class InvalidParameterError extends APIError {
 /**
  * The `[NAME]` parameter is required.
  */
-export class MissingRequiredParameterError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class MissingRequiredParameterError extends ParameterError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'MissingRequiredParameterError';
   }
 }
@@ -346,9 +636,9 @@ export class MissingRequiredParameterError extends APIError {
 /**
  * The `[NAME]` parameter has the wrong type.
  */
-export class WrongTypeParameterError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongTypeParameterError extends ParameterError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongTypeParameterError';
   }
 }
@@ -356,9 +646,9 @@ export class WrongTypeParameterError extends APIError {
 /**
  * The `[NAME]` parameter has the wrong value.
  */
-export class WrongValueParameterError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongValueParameterError extends ParameterError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongValueParameterError';
   }
 }
@@ -367,9 +657,9 @@ export class WrongValueParameterError extends APIError {
  * Only file with the registered hash
  * is allowed in the development mode.
  */
-export class OnlyDevelopmentFileError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class OnlyDevelopmentFileError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'OnlyDevelopmentFileError';
   }
 }
@@ -377,9 +667,9 @@ export class OnlyDevelopmentFileError extends APIError {
 /**
  * File extension `[EXTENSION]` is not valid.
  */
-export class NotValidExtensionError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NotValidExtensionError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NotValidExtensionError';
   }
 }
@@ -388,9 +678,9 @@ export class NotValidExtensionError extends APIError {
  * The max size of the file is `[MAXSIZE]` KB;
  * the current is `[FILESIZE]` KB.
  */
-export class LimitUploadSizeError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class LimitUploadSizeError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'LimitUploadSizeError';
   }
 }
@@ -398,9 +688,9 @@ export class LimitUploadSizeError extends APIError {
 /**
  * The submitted file is empty.
  */
-export class EmptyFileError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class EmptyFileError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'EmptyFileError';
   }
 }
@@ -408,9 +698,9 @@ export class EmptyFileError extends APIError {
 /**
  * The output format has the wrong structure.
  */
-export class WrongOutputFormatStructureError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongOutputFormatStructureError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongOutputFormatStructureError';
   }
 }
@@ -418,9 +708,9 @@ export class WrongOutputFormatStructureError extends APIError {
 /**
  * The `[OUTPUT]` format is not found in the valid output formats.
  */
-export class InvalidOutputFormatError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidOutputFormatError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidOutputFormatError';
   }
 }
@@ -428,9 +718,9 @@ export class InvalidOutputFormatError extends APIError {
 /**
  * The input format has the wrong structure.
  */
-export class WrongInputFormatStructureError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongInputFormatStructureError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongInputFormatStructureError';
   }
 }
@@ -438,9 +728,9 @@ export class WrongInputFormatStructureError extends APIError {
 /**
  * The `[INPUT]` format is not found in the valid input formats.
  */
-export class InvalidInputFormatError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidInputFormatError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidInputFormatError';
   }
 }
@@ -448,9 +738,9 @@ export class InvalidInputFormatError extends APIError {
 /**
  * There is no converter for `[INPUT]` format to `[OUTPUT]` format.
  */
-export class NoConverterInputToOutputError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NoConverterInputToOutputError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NoConverterInputToOutputError';
   }
 }
@@ -459,19 +749,29 @@ export class NoConverterInputToOutputError extends APIError {
  * The file extension (`[FILE_EXTENSION]`) does not match
  * the input extension (`[INPUT_EXTENSION]`).
  */
-export class NotMatchExtensionAndInputError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class NotMatchExtensionAndInputError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'NotMatchExtensionAndInputError';
   }
 }
 
+/**
+ * The extension of the output path does not match the output format.
+ */
+export class NotMatchExtensionAndOutputError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'NotMatchExtensionAndOutputError';
+  }
+}
+
 /**
  * Too Many Requests. Retry after `[DELAY]` seconds.
  */
-export class TooManyRequestsError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class TooManyRequestsError extends TransientError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'TooManyRequestsError';
   }
 }
@@ -480,9 +780,9 @@ export class TooManyRequestsError extends APIError {
  * The free app has a daily limit.
  * Please try again in the next `[DELAY]` hours.
  */
-export class FreeAppLimitedError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class FreeAppLimitedError extends QuotaError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'FreeAppLimitedError';
   }
 }
@@ -490,9 +790,9 @@ export class FreeAppLimitedError extends APIError {
 /**
  * The task is disabled for the free app.
  */
-export class DisabledForFreeAppError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class DisabledForFreeAppError extends QuotaError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'DisabledForFreeAppError';
   }
 }
@@ -500,9 +800,9 @@ export class DisabledForFreeAppError extends APIError {
 /**
  * The format has the wrong structure.
  */
-export class WrongFormatStructureError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class WrongFormatStructureError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'WrongFormatStructureError';
   }
 }
@@ -510,9 +810,9 @@ export class WrongFormatStructureError extends APIError {
 /**
  * The `[FORMAT]` format is not found in the valid formats.
  */
-export class InvalidFormatError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class InvalidFormatError extends FormatError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'InvalidFormatError';
   }
 }
@@ -520,20 +820,51 @@ export class InvalidFormatError extends APIError {
 /**
  * The conversion has failed.
  */
-export class FailedConvertError extends APIError {
-  constructor(message?: string) {
-    super(message);
+export class FailedConvertError extends InputFileError {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'FailedConvertError';
   }
 }
 
 /**
- * The server returned an HTTP response status of 4xx or 5xx.
+ * Structured details attached to an `HTTPResponseError`.
+ *
+ * @property headers - Response headers.
+ * @property bodyPreview - Truncated text preview of the response body.
+ */
+export interface HTTPResponseErrorDetails extends APIExceptionDetails {
+  headers?: Record<string, string>;
+  bodyPreview?: string;
+}
+
+/**
+ * The server returned an HTTP response status of 4xx or 5xx, or a
+ * response whose content type does not match the endpoint.
+ * Gateway errors (5xx) and rate limits (429) are considered transient.
  */
 export class HTTPResponseError extends APIResponseError {
-  constructor(message?: string) {
-    super(message);
+  readonly headers: Record<string, string>;
+  readonly bodyPreview: string;
+
+  constructor(message?: string, details: HTTPResponseErrorDetails = {}) {
+    super(message, details);
     this.name = 'HTTPResponseError';
+    this.headers = details.headers ?? {};
+    this.bodyPreview = details.bodyPreview ?? '';
+  }
+
+  get category(): ErrorCategory {
+    const status = this.httpStatus ?? 0;
+    return status >= 500 || status === 429 ? 'transient' : 'unknown';
+  }
+
+  toJSON(): SerializedAPIException {
+    return {
+      ...super.toJSON(),
+      headers: this.headers,
+      bodyPreview: this.bodyPreview,
+    };
   }
 }
 
@@ -541,8 +872,8 @@ export class HTTPResponseError extends APIResponseError {
  * The parent class of the API-task-level errors.
  */
 export class APITaskError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'APITaskError';
   }
 }
@@ -551,8 +882,8 @@ export class APITaskError extends APIException {
  * Entity status is not running.
  */
 export class EntityStatusNotRunningError extends APITaskError {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'EntityStatusNotRunningError';
   }
 }
@@ -561,12 +892,109 @@ export class EntityStatusNotRunningError extends APITaskError {
  * Writing the output file to the disk failed.
  */
 export class OutputWriteError extends APIException {
-  constructor(message?: string) {
-    super(message);
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
     this.name = 'OutputWriteError';
   }
 }
 
+/**
+ * The conversion or API request was aborted through an `AbortSignal`.
+ */
+export class ConversionAbortedError extends APIException {
+  constructor(message?: string, details?: APIExceptionDetails) {
+    super(message, details);
+    this.name = 'ConversionAbortedError';
+  }
+}
+
+/**
+ * Structured details attached to a `PipelineStepError`.
+ *
+ * @property step - Zero-based index of the step that failed.
+ * @property input - Input format[-type] of the step.
+ * @property output - Output format[-type] of the step.
+ */
+export interface PipelineStepErrorDetails extends APIExceptionDetails {
+  step?: number;
+  input?: string;
+  output?: string;
+}
+
+/**
+ * A step of a conversion pipeline failed. The error that made it fail
+ * is available as `cause`, and its category is reported as the
+ * category of this error.
+ */
+export class PipelineStepError extends APIException {
+  readonly step: number;
+  readonly input?: string;
+  readonly output?: string;
+
+  constructor(message?: string, details: PipelineStepErrorDetails = {}) {
+    super(message, details);
+    this.name = 'PipelineStepError';
+    this.step = details.step ?? 0;
+    this.input = details.input;
+    this.output = details.output;
+  }
+
+  get category(): ErrorCategory {
+    return this.cause instanceof APIException ? this.cause.category : 'unknown';
+  }
+
+  toJSON(): SerializedAPIException {
+    return {
+      ...super.toJSON(),
+      step: this.step,
+      input: this.input,
+      output: this.output,
+    };
+  }
+}
+
+/**
+ * Structured details attached to a `ConversionBatchError`.
+ *
+ * @property target - Zero-based index of the target that failed.
+ */
+export interface ConversionBatchErrorDetails extends APIExceptionDetails {
+  target?: number;
+}
+
+/**
+ * A conversion of `Converter.convertMany` failed. The error that made it
+ * fail is available as `cause`, and its category is reported as the
+ * category of this error. The conversions that were started are kept in
+ * `conversions`, so they can still be waited for and downloaded.
+ */
+export class ConversionBatchError<T = unknown> extends APIException {
+  readonly target: number;
+  readonly conversions: T[];
+
+  constructor(
+    message?: string,
+    details: ConversionBatchErrorDetails = {},
+    conversions: T[] = []
+  ) {
+    super(message, details);
+    this.name = 'ConversionBatchError';
+    this.target = details.target ?? 0;
+    this.conversions = conversions;
+  }
+
+  get category(): ErrorCategory {
+    return this.cause instanceof APIException ? this.cause.category : 'unknown';
+  }
+
+  toJSON(): SerializedAPIException {
+    return {
+      ...super.toJSON(),
+      target: this.target,
+    };
+  }
+}
+
 /**
  * API Warning.
  */
@@ -53,6 +53,28 @@ export const DEFAULT_CONFIG: Record<string, Record<string, any>> = {
     // The number of retry attempts for failed requests.
     retries: 5,
 
+    // The base delay (in milliseconds) for exponential retry backoff.
+    retryBaseDelay: 1000,
+
+    // The maximum delay (in milliseconds) between two retry attempts.
+    retryMaxDelay: 60 * 1000,
+
+    // Whether to randomize retry delays using full jitter.
+    // Recommended when many clients retry against the same service.
+    retryJitter: false,
+
+    // Whether to honor the server `Retry-After` header when retrying.
+    respectRetryAfter: true,
+
+    // An optional `RetryPolicy` instance used by all API clients
+    // that do not set their own. When `null`, a policy is built
+    // from the retry settings above.
+    retryPolicy: null,
+
+    // An optional `Transport` instance used by all API clients
+    // that do not set their own. When `null`, native fetch is used.
+    transport: null,
+
     // The default timeout (in milliseconds) for API requests.
     defaultTimeout: 30 * 1000,
 
@@ -64,6 +86,63 @@ export const DEFAULT_CONFIG: Record<string, Record<string, any>> = {
     // This value is used for both uploads and downloads.
     streamChunkSize: 4096,
   },
+
+  /**
+   * Conversion settings
+   * -------------------
+   * This section configures how `Converter` runs conversions,
+   * including when the synchronous strategy is used.
+   */
+  conversionSettings: {
+    // The default conversion mode: 'async' (convert and poll),
+    // 'sync' (wait for the result in the convert request), or
+    // 'auto' (sync for inputs up to `syncMaxSize`, async otherwise).
+    mode: 'async',
+
+    // The largest input size (in bytes) converted synchronously
+    // in 'auto' mode. Inputs of unknown size are converted async.
+    syncMaxSize: 1024 * 1024,
+
+    // The timeout (in milliseconds) for synchronous convert requests.
+    // If it elapses, the conversion fails; it is not resubmitted async,
+    // as the service may already be converting the file.
+    syncTimeout: 60 * 1000,
+
+    // Whether to detect the input format from the file content
+    // when it is not given. If the service rejects the detected
+    // format, the conversion is retried with the extension format.
+    detectInputFormat: true,
+
+    // Whether to validate the input and the format pair before
+    // uploading. Failing checks raise the matching API exception.
+    // Off by default: each new input format costs a `/convert/formats`
+    // lookup, unless the converter's catalog already holds it.
+    preflight: false,
+
+    // The largest input size (in bytes) accepted by preflight
+    // validation, such as the upload limit of your plan.
+    // When `null`, the size is not limited.
+    maxUploadSize: null,
+
+    // The time (in milliseconds) `FormatCatalog` lookups are cached.
+    catalogTtl: 24 * 60 * 60 * 1000,
+
+    // The file `UsageLedger` appends records to when it is created
+    // without a store. Node.js only; relative to the working directory.
+    ledgerPath: 'vertopal-usage.jsonl',
+  },
+
+  /**
+   * Request hooks
+   * -------------
+   * This section holds interceptors applied to every API request,
+   * before the interceptors registered on individual clients.
+   */
+  hooks: {
+    // An ordered list of `Interceptor` objects with optional
+    // `onRequest`, `onResponse` and `onError` hooks.
+    interceptors: [],
+  },
 };
 
 /**
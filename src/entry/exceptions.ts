@@ -9,8 +9,31 @@
 // centralizing access to error definitions so that API, validation, and
 // conversion failures can be handled in a consistent and predictable way.
 
+export type {
+  APIExceptionDetails,
+  SerializedAPIException,
+  HTTPResponseErrorDetails,
+  PipelineStepErrorDetails,
+  ConversionBatchErrorDetails,
+  ErrorCategory,
+} from '../common/exceptions.ts';
 export {
+  APIException,
+  InputNotFoundError,
+  NetworkConnectionError,
+  APIResponseError,
+  InvalidJSONResponseError,
+  HTTPResponseError,
   APIError,
+  TransientError,
+  AuthenticationError,
+  QuotaError,
+  InputFileError,
+  FormatError,
+  ParameterError,
+  RequestError,
+  CallbackError,
+  ConnectorError,
   InternalServerError,
   NotFoundError,
   PostMethodAllowedError,
@@ -26,6 +49,7 @@ export {
   InvalidCredentialError,
   FreePlanDisallwedError,
   InsufficentVCreditsError,
+  CreditBudgetExceededError,
   InvalidCallbackError,
   UnverifiedDomainCallbackError,
   NoConnectorDependentTaskError,
@@ -49,10 +73,15 @@ export {
   InvalidInputFormatError,
   NoConverterInputToOutputError,
   NotMatchExtensionAndInputError,
+  NotMatchExtensionAndOutputError,
   TooManyRequestsError,
   FreeAppLimitedError,
   DisabledForFreeAppError,
   WrongFormatStructureError,
   InvalidFormatError,
   FailedConvertError,
+  ConversionAbortedError,
+  PipelineStepError,
+  ConversionBatchError,
 } from '../common/exceptions.ts';
+export { ExceptionHandler } from '../utils/exceptionHandler.ts';
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+// Provides testing utilities for the Vertopal JavaScript Library, such as
+// a local stand-in for the Vertopal API that allows conversions to be
+// exercised offline with scripted outcomes and injected faults, and
+// record-and-replay fixtures of real API traffic.
+// Available in Node.js only.
+
+export type {
+  ScriptedConversion,
+  InjectedFault,
+  MockServerOptions,
+  RecordedRequest,
+} from '../testing/server.ts';
+export { MockVertopalServer } from '../testing/server.ts';
+export type {
+  RecordedFile,
+  CassetteInteraction,
+} from '../testing/cassette.ts';
+export {
+  Cassette,
+  RecordingTransport,
+  ReplayTransport,
+} from '../testing/cassette.ts';
@@ -13,3 +13,98 @@ export { Config } from './config/config.ts';
 export { Credential } from './api/credential.ts';
 export { API } from './api/v1.ts'
 export { Converter } from './api/converter.ts';
+export { RetryPolicy } from './api/retry.ts';
+export { FetchTransport } from './api/transport.ts';
+export { CallbackReceiver } from './api/callback.ts';
+export { FormatCatalog } from './api/catalog.ts';
+export { ConversionPlan } from './api/plan.ts';
+export { CreditBudget } from './api/budget.ts';
+export { Pipeline } from './api/pipeline.ts';
+export {
+  UsageLedger,
+  JsonlUsageStore,
+  MemoryUsageStore
+} from './api/ledger.ts';
+export { FormatSniffer } from './utils/formatSniffer.ts';
+export { FormatRegistry } from './utils/formatRegistry.ts';
+export {
+  ParameterBuilder,
+  ImageOptions,
+  DocumentOptions,
+  MediaOptions
+} from './api/options.ts';
+
+export type { InterfaceOptions, RequestOptions } from './api/interface.ts';
+export type { ConvertFileOptions } from './api/v1.ts';
+export type {
+  ConverterOptions,
+  ConvertOptions,
+  ConversionMode,
+  ConversionState,
+  ConversionTarget
+} from './api/converter.ts';
+export type { RetryPolicyOptions, RetryAttempt } from './api/retry.ts';
+export type { CallbackReceiverOptions } from './api/callback.ts';
+export type { ConversionStep } from './api/plan.ts';
+export type {
+  PipelineStep,
+  PipelineStepStatus,
+  PipelineStepOptions,
+  PipelineRunOptions,
+  PipelineServices
+} from './api/pipeline.ts';
+export type {
+  CreditBudgetOptions,
+  CreditBudgetStatus
+} from './api/budget.ts';
+export type {
+  UsageRecord,
+  UsageStore,
+  UsageQuery,
+  UsageGrouping,
+  UsageSummary,
+  UsageLedgerOptions
+} from './api/ledger.ts';
+export type { FormatDefinition } from './utils/formatRegistry.ts';
+export type {
+  FormatCatalogOptions,
+  FormatCatalogSnapshot
+} from './api/catalog.ts';
+export type {
+  ConversionParameters,
+  ConversionParameterValue
+} from './api/options.ts';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  MultipartFile
+} from './api/transport.ts';
+export type {
+  Interceptor,
+  InterceptorContext,
+  ResponseContext,
+  ErrorContext
+} from './api/interceptors.ts';
+export type {
+  APIMessage,
+  APIResponse,
+  TaskEntity,
+  ConversionResult,
+  UploadFileOutput,
+  UploadFileResponse,
+  ConvertFileOutput,
+  ConvertFileResponse,
+  ConvertStatusOutput,
+  ConvertStatusResponse,
+  TaskResponseOutput,
+  TaskResponse,
+  DownloadUrlOutput,
+  DownloadUrlResponse,
+  FormatInfo,
+  FormatGetResponse,
+  ConvertGraphOutput,
+  ConvertGraphResponse,
+  ConvertFormatsOutput,
+  ConvertFormatsResponse
+} from './api/models.ts';
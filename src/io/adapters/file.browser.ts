@@ -11,10 +11,12 @@
 
 import type {
   Readable,
+  BlobReadable,
   Writable,
   BrowserReadableStream,
   BrowserWritableStream
 } from '../protocols.ts';
+import { FormatRegistry } from '../../utils/formatRegistry.ts';
 
 /**
  * Readable adapter for binary input from a browser File object.
@@ -22,8 +24,10 @@ import type {
  * Wraps a native `File` instance to implement the `Readable` interface.
  * Provides metadata such as filename and content type, and exposes
  * a method to open the file as a browser-native `ReadableStream`.
+ * The `File` itself is also exposed so uploads can pass it through
+ * without reading it into memory.
  */
-export class BrowserFileInput implements Readable {
+export class BrowserFileInput implements Readable, BlobReadable {
   private _file: File;
   private _filename: string;
   private _contentType: string;
@@ -33,7 +37,9 @@ export class BrowserFileInput implements Readable {
    *
    * @param file - The browser `File` object selected via an `<input type="file">`.
    * @param filename - Optional display name. Defaults to original file name.
-   * @param contentType - Optional MIME type. Defaults to original file type.
+   * @param contentType - Optional MIME type. Defaults to the file type reported
+   *                      by the browser, then to the type registered for the
+   *                      filename extension.
    */
   constructor(
     file: File,
@@ -42,7 +48,10 @@ export class BrowserFileInput implements Readable {
   ) {
     this._file = file;
     this._filename = filename || file.name || 'upload.bin';
-    this._contentType = contentType || file.type || 'application/octet-stream';
+    this._contentType = contentType ||
+      (file.type !== 'application/octet-stream' ? file.type : '') ||
+      FormatRegistry.mimeTypeForFilename(this._filename) ||
+      'application/octet-stream';
   }
 
   /**
@@ -55,6 +64,24 @@ export class BrowserFileInput implements Readable {
     return stream as BrowserReadableStream;
   }
 
+  /**
+   * Get the size of the file.
+   *
+   * @returns The file size in bytes.
+   */
+  async size(): Promise<number | undefined> {
+    return this._file.size;
+  }
+
+  /**
+   * Get the underlying `File` object.
+   *
+   * @returns The `File` passed to the constructor.
+   */
+  get blob(): Blob {
+    return this._file;
+  }
+
   /**
    * Get the filename associated with the file input.
    *
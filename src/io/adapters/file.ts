@@ -9,10 +9,18 @@
 //   implementing Vertopal's Readable, Writable, and PathWritable
 //   interfaces for binary I/O operations.
 
-import { createReadStream, createWriteStream, WriteStream, ReadStream } from 'fs';
+import {
+  createReadStream,
+  createWriteStream,
+  constants as fsConstants,
+  WriteStream,
+  ReadStream
+} from 'fs';
+import { access, stat } from 'fs/promises';
 import { PathLike } from 'fs';
 import { basename } from 'path';
 import type { Readable, Writable, PathWritable } from '../protocols.ts';
+import { FormatRegistry } from '../../utils/formatRegistry.ts';
 
 /**
  * FileInput adapter for reading binary data from the file system.
@@ -31,7 +39,8 @@ export class FileInput implements Readable {
    *
    * @param path - File system path to read from.
    * @param filename - Optional display name. Defaults to basename of path.
-   * @param contentType - Optional MIME type. Defaults to "application/octet-stream".
+   * @param contentType - Optional MIME type. Defaults to the type registered
+   *                      for the filename extension, or "application/octet-stream".
    */
   constructor(
     path: PathLike,
@@ -40,7 +49,9 @@ export class FileInput implements Readable {
   ) {
     this._path = path;
     this._filename = filename || basename(path.toString()) || 'upload.bin';
-    this._contentType = contentType || 'application/octet-stream';
+    this._contentType = contentType ||
+      FormatRegistry.mimeTypeForFilename(this._filename) ||
+      'application/octet-stream';
   }
 
   /**
@@ -52,6 +63,34 @@ export class FileInput implements Readable {
     return createReadStream(this._path);
   }
 
+  /**
+   * Get the size of the file.
+   *
+   * @returns The file size in bytes, or `undefined` if the file
+   *          cannot be accessed.
+   */
+  async size(): Promise<number | undefined> {
+    try {
+      return (await stat(this._path)).size;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether the file exists and is readable.
+   *
+   * @returns `true` if the file can be opened for reading.
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await access(this._path, fsConstants.R_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get the filename associated with the file input.
    *
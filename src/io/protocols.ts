@@ -51,6 +51,31 @@ export interface Readable {
    * The MIME type of the content, if known.
    */
   contentType?: string;
+
+  /**
+   * Returns the size of the resource in bytes, if it can be
+   * determined without reading the contents.
+   */
+  size?(): Promise<number | undefined>;
+
+  /**
+   * Returns whether the resource exists and can be opened.
+   */
+  exists?(): Promise<boolean>;
+}
+
+/**
+ * Represents a readable resource backed by a `Blob`.
+ *
+ * Extends the readable concept by exposing the underlying `Blob`
+ * (or `File`), allowing it to be attached to a request body directly
+ * instead of being read through a stream.
+ */
+export interface BlobReadable {
+  /**
+   * The underlying `Blob` holding the resource contents.
+   */
+  readonly blob: Blob;
 }
 
 /**
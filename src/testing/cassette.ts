@@ -0,0 +1,458 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Record-and-replay support for Vertopal API traffic. A `Cassette`
+//   stores request/response pairs in a JSON fixture file; its recording
+//   transport captures real traffic with redacted credentials (the token
+//   and the app ID) and hashed file uploads, and its replay transport serves the recorded responses
+//   deterministically without touching the network.
+
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { APIException } from '../common/exceptions.ts';
+import { FetchTransport } from '../api/transport.ts';
+import type {
+  MultipartFile,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from '../api/transport.ts';
+import { StreamChunker } from '../utils/streamChunker.ts';
+import { readMultipartFile } from '../utils/multipart.ts';
+
+/**
+ * Placeholder stored in place of the Bearer token.
+ */
+const REDACTED_TOKEN = 'Bearer [REDACTED]';
+
+/**
+ * Placeholder stored in place of the application ID in the `data` field.
+ */
+const REDACTED_APP = '[REDACTED]';
+
+/**
+ * Version of the cassette file format.
+ */
+const CASSETTE_VERSION = 1;
+
+/**
+ * Chunk size in bytes used when reading response bodies.
+ */
+const BODY_CHUNK_SIZE = 65536;
+
+/**
+ * Recorded multipart file, stored as a hash instead of its contents.
+ *
+ * @property filename - Name of the uploaded file.
+ * @property contentType - MIME type of the uploaded file.
+ * @property size - Size of the uploaded file in bytes.
+ * @property sha256 - Hex-encoded SHA-256 hash of the file contents.
+ */
+export interface RecordedFile {
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * A recorded request/response pair.
+ *
+ * @property request - The request, with redacted credentials and hashed files.
+ * @property response - The response, with its body encoded as UTF-8 text
+ *                      or, for binary bodies, as base64.
+ */
+export interface CassetteInteraction {
+  request: {
+    method: 'GET' | 'POST';
+    endpoint: string;
+    headers: Record<string, string>;
+    fields: Record<string, string>;
+    files: Record<string, RecordedFile>;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+/**
+ * A set of recorded interactions backed by a JSON fixture file.
+ *
+ * Record real traffic by passing `cassette.record()` as the transport of
+ * an `API` or `Converter` (or via `connectionSettings.transport`), then
+ * call `save()`. Later runs load the fixture and use `cassette.replay()`
+ * to serve the recorded responses in order, with no network access.
+ */
+export class Cassette {
+  private readonly _path: string;
+  private readonly _interactions: CassetteInteraction[];
+
+  /**
+   * Create a new Cassette.
+   *
+   * @param path - Path of the JSON fixture file.
+   * @param interactions - Optional interactions to start with.
+   */
+  constructor(path: string, interactions: CassetteInteraction[] = []) {
+    this._path = path;
+    this._interactions = interactions;
+  }
+
+  /**
+   * Load a cassette from a JSON fixture file.
+   *
+   * @param path - Path of the JSON fixture file.
+   * @returns The loaded cassette.
+   * @throws Error - If the file has an unsupported format.
+   */
+  static async load(path: string): Promise<Cassette> {
+    const content = JSON.parse(await readFile(path, 'utf8'));
+    if (content?.version !== CASSETTE_VERSION || !Array.isArray(content.interactions)) {
+      throw new Error(`Unsupported cassette format in ${path}.`);
+    }
+    return new Cassette(path, content.interactions);
+  }
+
+  /**
+   * Write the recorded interactions to the fixture file.
+   *
+   * @returns A promise that resolves once the file is written.
+   */
+  async save(): Promise<void> {
+    const content = { version: CASSETTE_VERSION, interactions: this._interactions };
+    await writeFile(this._path, JSON.stringify(content, null, 2) + '\n', 'utf8');
+  }
+
+  /**
+   * Path of the fixture file.
+   *
+   * @returns The file path.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * Interactions recorded in this cassette, in order.
+   *
+   * @returns A copy of the interaction list.
+   */
+  get interactions(): CassetteInteraction[] {
+    return [...this._interactions];
+  }
+
+  /**
+   * Create a transport that sends requests through another transport
+   * and records each interaction in this cassette.
+   *
+   * @param transport - Transport used to send requests (default: `FetchTransport`).
+   * @returns The recording transport.
+   */
+  record(transport: Transport = new FetchTransport()): RecordingTransport {
+    return new RecordingTransport(this, transport);
+  }
+
+  /**
+   * Create a transport that serves responses from this cassette.
+   *
+   * @returns The replay transport.
+   */
+  replay(): ReplayTransport {
+    return new ReplayTransport(this);
+  }
+
+  /**
+   * Append an interaction to this cassette.
+   *
+   * @param interaction - The interaction to add.
+   * @returns Void.
+   */
+  add(interaction: CassetteInteraction): void {
+    this._interactions.push(interaction);
+  }
+}
+
+/**
+ * Transport that records every interaction in a `Cassette`.
+ *
+ * File uploads are read into memory so their hash can be recorded, and
+ * response bodies are read fully before being handed back to the client.
+ */
+export class RecordingTransport implements Transport {
+  private readonly cassette: Cassette;
+  private readonly transport: Transport;
+
+  /**
+   * Create a new RecordingTransport.
+   *
+   * @param cassette - Cassette to record into.
+   * @param transport - Transport used to send requests.
+   */
+  constructor(cassette: Cassette, transport: Transport) {
+    this.cassette = cassette;
+    this.transport = transport;
+  }
+
+  /**
+   * Send a request and record the interaction.
+   *
+   * @param request - The normalized request to send.
+   * @returns A response replaying the recorded body.
+   */
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const files: Record<string, MultipartFile> = {};
+    const recordedFiles: Record<string, RecordedFile> = {};
+
+    for (const [fieldName, file] of Object.entries(request.files)) {
+      const bytes = await readMultipartFile(file);
+      files[fieldName] = {
+        ...file,
+        stream: undefined,
+        blob: new Blob([bytes as BlobPart], { type: file.contentType }),
+      };
+      recordedFiles[fieldName] = describeFile(file, bytes);
+    }
+
+    const response = await this.transport.send({ ...request, files });
+    const body = await readBody(response.body);
+    const interaction: CassetteInteraction = {
+      request: {
+        method: request.method,
+        endpoint: endpointOf(request.url),
+        headers: redactHeaders(request.headers),
+        fields: redactFields(request.fields),
+        files: recordedFiles,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        ...encodeBody(body, response.headers.get('Content-Type')),
+      },
+    };
+
+    this.cassette.add(interaction);
+    return toResponse(interaction);
+  }
+}
+
+/**
+ * Transport that serves recorded responses from a `Cassette`.
+ *
+ * Each request is matched against the first unused interaction with the
+ * same method, endpoint, fields and file hashes. Credentials are redacted
+ * on both sides first, so fixtures recorded with one app ID replay with
+ * any other. Unmatched requests are
+ * rejected with an `APIException`, which is not retried.
+ */
+export class ReplayTransport implements Transport {
+  private readonly pending: CassetteInteraction[];
+
+  /**
+   * Create a new ReplayTransport.
+   *
+   * @param cassette - Cassette to replay.
+   */
+  constructor(cassette: Cassette) {
+    this.pending = cassette.interactions;
+  }
+
+  /**
+   * Number of recorded interactions that have not been replayed yet.
+   *
+   * @returns The number of remaining interactions.
+   */
+  get remaining(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Serve the recorded response matching a request.
+   *
+   * @param request - The normalized request.
+   * @returns The recorded response.
+   * @throws APIException - If no recorded interaction matches the request.
+   */
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const endpoint = endpointOf(request.url);
+    const files: Record<string, RecordedFile> = {};
+    for (const [fieldName, file] of Object.entries(request.files)) {
+      files[fieldName] = describeFile(file, await readMultipartFile(file));
+    }
+
+    const index = this.pending.findIndex(({ request: recorded }) =>
+      recorded.method === request.method &&
+      recorded.endpoint === endpoint &&
+      sameFields(redactFields(recorded.fields), redactFields(request.fields)) &&
+      sameFiles(recorded.files, files)
+    );
+    if (index === -1) {
+      throw new APIException(
+        `No recorded interaction matches ${request.method} ${endpoint}.`,
+        { endpoint }
+      );
+    }
+
+    const [interaction] = this.pending.splice(index, 1);
+    return toResponse(interaction!);
+  }
+}
+
+/**
+ * Read a response body stream into memory.
+ *
+ * @param body - The response body stream, or `null`.
+ * @returns The body contents.
+ */
+async function readBody(body: ReadableStream<Uint8Array> | null): Promise<Uint8Array> {
+  if (!body) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of new StreamChunker(body, BODY_CHUNK_SIZE, []).chunks()) {
+    chunks.push(chunk);
+  }
+  return concat(chunks);
+}
+
+/**
+ * Concatenate byte chunks.
+ *
+ * @param chunks - Chunks to concatenate.
+ * @returns A single byte array.
+ */
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Describe a multipart file by its metadata and content hash.
+ *
+ * @param file - The multipart file.
+ * @param bytes - The file contents.
+ * @returns The recorded file description.
+ */
+function describeFile(file: MultipartFile, bytes: Uint8Array): RecordedFile {
+  return {
+    filename: file.filename,
+    contentType: file.contentType,
+    size: bytes.length,
+    sha256: createHash('sha256').update(bytes).digest('hex'),
+  };
+}
+
+/**
+ * Encode a response body for storage.
+ *
+ * @param body - The body contents.
+ * @param contentType - The response content type, if any.
+ * @returns The encoded body and its encoding.
+ */
+function encodeBody(
+  body: Uint8Array,
+  contentType: string | null
+): Pick<CassetteInteraction['response'], 'body' | 'encoding'> {
+  const textual = /^(application\/json|text\/)/i.test(contentType ?? '');
+  return textual
+    ? { body: Buffer.from(body).toString('utf8'), encoding: 'utf8' }
+    : { body: Buffer.from(body).toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Build a response from a recorded interaction.
+ *
+ * @param interaction - The recorded interaction.
+ * @returns A fetch `Response` with the recorded status, headers and body.
+ */
+function toResponse(interaction: CassetteInteraction): TransportResponse {
+  const { status, statusText, headers, body, encoding } = interaction.response;
+  const bytes = Buffer.from(body, encoding);
+  const nullBody = [204, 205, 304].includes(status);
+  return new Response(nullBody ? null : bytes, { status, statusText, headers });
+}
+
+/**
+ * Extract the endpoint path from a request URL.
+ *
+ * @param url - Absolute request URL.
+ * @returns The path, without the version prefix.
+ */
+function endpointOf(url: string): string {
+  return new URL(url).pathname.replace(/^\/v\d+/, '');
+}
+
+/**
+ * Redact credentials from request headers.
+ *
+ * @param headers - Request headers.
+ * @returns A copy of the headers with the Bearer token redacted.
+ */
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = name.toLowerCase() === 'authorization' ? REDACTED_TOKEN : value;
+  }
+  return redacted;
+}
+
+/**
+ * Redact the application ID from the JSON `data` field of a request.
+ *
+ * @param fields - Multipart string fields.
+ * @returns A copy of the fields with the `app` value redacted. Fields
+ *          that are not JSON objects are kept as they are.
+ */
+function redactFields(fields: Record<string, string>): Record<string, string> {
+  const redacted = { ...fields };
+  if (redacted.data === undefined) return redacted;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(redacted.data);
+  } catch {
+    return redacted;
+  }
+  if (typeof data === 'object' && data !== null && 'app' in data) {
+    redacted.data = JSON.stringify({ ...data, app: REDACTED_APP });
+  }
+  return redacted;
+}
+
+/**
+ * Compare recorded and actual multipart string fields.
+ *
+ * @param recorded - Recorded fields.
+ * @param actual - Fields of the current request.
+ * @returns `true` if both have the same keys and values.
+ */
+function sameFields(recorded: Record<string, string>, actual: Record<string, string>): boolean {
+  const keys = Object.keys(recorded);
+  return keys.length === Object.keys(actual).length &&
+    keys.every(key => recorded[key] === actual[key]);
+}
+
+/**
+ * Compare recorded and actual multipart files by name and content hash.
+ *
+ * @param recorded - Recorded files.
+ * @param actual - Files of the current request.
+ * @returns `true` if both have the same fields and contents.
+ */
+function sameFiles(recorded: Record<string, RecordedFile>, actual: Record<string, RecordedFile>): boolean {
+  const keys = Object.keys(recorded);
+  return keys.length === Object.keys(actual).length &&
+    keys.every(key => recorded[key]?.sha256 === actual[key]?.sha256);
+}
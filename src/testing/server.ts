@@ -0,0 +1,812 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Local stand-in for the Vertopal API (v1) intended for offline tests.
+//   Implements the routes used by the `API` class with in-memory state,
+//   scripted conversion outcomes, configurable latency, and injectable
+//   faults such as API error codes and dropped connections.
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { ERROR_CODE_MAP } from '../utils/exceptionHandler.ts';
+import { FormatRegistry } from '../utils/formatRegistry.ts';
+
+/**
+ * JSON payload exchanged with the mock server.
+ */
+type Payload = Record<string, unknown>;
+
+/**
+ * Scripted outcome of a conversion handled by the mock server.
+ *
+ * @property status - Final conversion status (default: "successful").
+ * @property polls - Number of `/task/response` calls answered with a
+ *                   running task before it completes (default: 0).
+ * @property vcredits - vCredits reported for the conversion (default: 1).
+ * @property output - Contents of the converted file.
+ * @property filename - Name of the converted file; derived from the
+ *                      uploaded filename and output format if omitted.
+ */
+export interface ScriptedConversion {
+  status?: 'successful' | 'failed';
+  polls?: number;
+  vcredits?: number;
+  output?: string | Uint8Array;
+  filename?: string;
+}
+
+/**
+ * Fault injected into the mock server.
+ *
+ * @property code - API error code to respond with; must be a key of
+ *                  `ERROR_CODE_MAP`.
+ * @property message - Optional error message.
+ * @property httpStatus - Optional HTTP status of the error response.
+ * @property drop - If `true`, the connection is destroyed instead.
+ * @property times - Number of requests affected (default: 1).
+ */
+export interface InjectedFault {
+  code?: string;
+  message?: string;
+  httpStatus?: number;
+  drop?: boolean;
+  times?: number;
+}
+
+/**
+ * Options for creating a `MockVertopalServer`.
+ *
+ * @property host - Host to listen on (default: "127.0.0.1").
+ * @property port - Port to listen on (default: a random free port).
+ * @property latency - Delay in milliseconds before each response.
+ * @property formats - Map of input formats to their output formats.
+ * @property parameters - Map of formats to the conversion parameters
+ *                        `/format/get` reports for them.
+ * @property graphs - Map of "input>output" pairs to the path and cost
+ *                    `/convert/graph` reports; defaults to a direct,
+ *                    one-vCredit conversion.
+ */
+export interface MockServerOptions {
+  host?: string;
+  port?: number;
+  latency?: number;
+  formats?: Record<string, string[]>;
+  parameters?: Record<string, string[]>;
+  graphs?: Record<string, { graph: string[]; vcredits: number }>;
+}
+
+/**
+ * A request received by the mock server.
+ *
+ * @property endpoint - Endpoint path without the version prefix.
+ * @property data - Parsed JSON `data` field of the request.
+ * @property filename - Name of the uploaded file, if any.
+ * @property size - Size of the uploaded file in bytes, if any.
+ */
+export interface RecordedRequest {
+  endpoint: string;
+  data: Payload;
+  filename?: string;
+  size?: number;
+}
+
+/**
+ * In-memory task tracked by the mock server.
+ */
+interface MockTask {
+  id: string;
+  type: 'upload' | 'convert' | 'download';
+  filename: string;
+  format?: string;
+  source?: string;
+  size?: number;
+  outcome?: Required<Omit<ScriptedConversion, 'filename'>> & { filename: string };
+  pollsLeft?: number;
+}
+
+/**
+ * Default conversion matrix of the mock server.
+ */
+const DEFAULT_FORMATS: Record<string, string[]> = {
+  docx: ['pdf', 'txt', 'png', 'html'],
+  pdf: ['docx', 'png', 'txt', 'jpg'],
+  png: ['jpg', 'pdf', 'webp', 'gif'],
+  jpg: ['png', 'pdf', 'webp'],
+  gif: ['apng', 'png', 'mp4'],
+  txt: ['pdf', 'docx'],
+  mp4: ['gif', 'mp3', 'webm'],
+};
+
+/**
+ * Local stand-in for the Vertopal API.
+ *
+ * Start the server and point the library at it with
+ * `Config.update({ api: { endpoint: server.endpoint } })`. Conversions
+ * succeed immediately by default; use `script()` to queue other outcomes
+ * and `injectError()` or `dropConnection()` to simulate failures.
+ */
+export class MockVertopalServer {
+  private readonly options: MockServerOptions;
+  private readonly formats: Record<string, string[]>;
+  private readonly tasks = new Map<string, MockTask>();
+  private readonly scripts: ScriptedConversion[] = [];
+  private readonly faults = new Map<string, Required<InjectedFault>[]>();
+  private readonly _requests: RecordedRequest[] = [];
+  private server?: Server;
+  private counter = 0;
+  private _latency: number;
+
+  /**
+   * Create a new MockVertopalServer.
+   *
+   * @param options - Optional server options.
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.formats = options.formats ?? DEFAULT_FORMATS;
+    this._latency = options.latency ?? 0;
+  }
+
+  /**
+   * Start listening for requests.
+   *
+   * @returns The base endpoint URL of the server.
+   */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, 500, {
+          error: { code: 'INTERNAL_SERVER_ERROR', message: String(error?.message ?? error) },
+        });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', resolve);
+    });
+
+    return this.endpoint;
+  }
+
+  /**
+   * Stop the server and close open connections.
+   *
+   * @returns A promise that resolves once the server is closed.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Base endpoint URL of the running server.
+   *
+   * @returns The endpoint URL, without a version or trailing slash.
+   * @throws Error - If the server has not been started.
+   */
+  get endpoint(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error('The mock server is not running.');
+    }
+    return `http://${address.address}:${address.port}`;
+  }
+
+  /**
+   * Requests received so far, in order.
+   *
+   * @returns A copy of the request log.
+   */
+  get requests(): RecordedRequest[] {
+    return [...this._requests];
+  }
+
+  /**
+   * Delay in milliseconds applied before each response.
+   *
+   * @returns The current latency.
+   */
+  get latency(): number {
+    return this._latency;
+  }
+
+  /**
+   * Set the delay applied before each response.
+   *
+   * @param value - Latency in milliseconds.
+   */
+  set latency(value: number) {
+    this._latency = value;
+  }
+
+  /**
+   * Queue outcomes for the next conversions, in order.
+   *
+   * @param conversions - Outcomes applied to subsequent `/convert/file` calls.
+   * @returns This server, for chaining.
+   */
+  script(...conversions: ScriptedConversion[]): this {
+    this.scripts.push(...conversions);
+    return this;
+  }
+
+  /**
+   * Respond to the next requests of an endpoint with an API error.
+   *
+   * @param endpoint - Endpoint path, e.g. "/convert/file".
+   * @param code - API error code; must be a key of `ERROR_CODE_MAP`.
+   * @param options - Optional message, HTTP status and repeat count.
+   * @returns This server, for chaining.
+   * @throws Error - If the error code is unknown.
+   */
+  injectError(
+    endpoint: string,
+    code: string,
+    options: Omit<InjectedFault, 'code' | 'drop'> = {}
+  ): this {
+    if (!(code in ERROR_CODE_MAP)) {
+      throw new Error(`Unknown error code: ${code}.`);
+    }
+    return this.addFault(endpoint, { ...options, code });
+  }
+
+  /**
+   * Drop the connection of the next requests of an endpoint.
+   *
+   * @param endpoint - Endpoint path, e.g. "/upload/file".
+   * @param times - Number of requests to drop (default: 1).
+   * @returns This server, for chaining.
+   */
+  dropConnection(endpoint: string, times: number = 1): this {
+    return this.addFault(endpoint, { drop: true, times });
+  }
+
+  /**
+   * Clear tasks, scripted outcomes, faults and the request log.
+   *
+   * @returns Void.
+   */
+  reset(): void {
+    this.tasks.clear();
+    this.scripts.length = 0;
+    this.faults.clear();
+    this._requests.length = 0;
+  }
+
+  /**
+   * Register a fault for an endpoint.
+   *
+   * @param endpoint - Endpoint path.
+   * @param fault - Fault description.
+   * @returns This server, for chaining.
+   */
+  private addFault(endpoint: string, fault: InjectedFault): this {
+    const key = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+    const list = this.faults.get(key) ?? [];
+    list.push({
+      code: fault.code ?? '',
+      message: fault.message ?? `Injected ${fault.code ?? 'fault'}.`,
+      httpStatus: fault.httpStatus ?? this.statusFor(fault.code ?? ''),
+      drop: fault.drop ?? false,
+      times: fault.times ?? 1,
+    });
+    this.faults.set(key, list);
+    return this;
+  }
+
+  /**
+   * Take the next pending fault of an endpoint, if any.
+   *
+   * @param endpoint - Endpoint path.
+   * @returns The fault to apply, or `undefined`.
+   */
+  private takeFault(endpoint: string): Required<InjectedFault> | undefined {
+    const list = this.faults.get(endpoint);
+    const fault = list?.[0];
+    if (!list || !fault) return undefined;
+
+    fault.times--;
+    if (fault.times <= 0) {
+      list.shift();
+    }
+    return fault;
+  }
+
+  /**
+   * Handle a single HTTP request.
+   *
+   * @param req - Incoming request.
+   * @param res - Server response.
+   * @returns A promise that resolves once the response is sent.
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const endpoint = (req.url ?? '/').replace(/^\/v\d+/, '');
+    const form = this.parseMultipart(req.headers['content-type'] ?? '', body);
+
+    let data: Payload = {};
+    try {
+      data = form.data ? JSON.parse(form.data) : {};
+    } catch {
+      return this.reply(res, 400, this.error('WRONG_TYPE_FIELD', 'The `data` field must be JSON.'));
+    }
+    this._requests.push({ endpoint, data, filename: form.filename, size: form.size });
+
+    if (this._latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this._latency));
+    }
+
+    const fault = this.takeFault(endpoint);
+    if (fault?.drop) {
+      req.socket.destroy();
+      return;
+    }
+    if (fault) {
+      return this.reply(res, fault.httpStatus, this.error(fault.code, fault.message));
+    }
+
+    if (req.method !== 'POST') {
+      return this.reply(res, 405, this.error('POST_METHOD_ALLOWED', 'Only POST is allowed.'));
+    }
+    if (!String(req.headers.authorization ?? '').startsWith('Bearer ')) {
+      return this.reply(res, 401, this.error(
+        'MISSING_AUTHORIZATION_HEADER', 'The Authorization header is required.'
+      ));
+    }
+
+    switch (endpoint) {
+      case '/upload/file':
+        return this.reply(res, 200, this.upload(form.filename, form.size));
+      case '/convert/file':
+        return this.reply(res, 200, this.convert(data));
+      case '/convert/status':
+        return this.reply(res, 200, this.status(data));
+      case '/task/response':
+        return this.reply(res, 200, this.taskResponse(data));
+      case '/download/url':
+        return this.reply(res, 200, this.downloadUrl(data));
+      case '/download/url/get':
+        return this.downloadGet(res, data);
+      case '/format/get':
+        return this.reply(res, 200, this.formatGet(data));
+      case '/convert/graph':
+        return this.reply(res, 200, this.convertGraph(data));
+      case '/convert/formats':
+        return this.reply(res, 200, this.convertFormats(data));
+      default:
+        return this.reply(res, 404, this.error('NOT_FOUND', 'The API endpoint is not found.'));
+    }
+  }
+
+  /**
+   * Handle `/upload/file`.
+   */
+  private upload(filename?: string, size?: number): Payload {
+    if (!filename) {
+      return this.error('MISSING_REQUIRED_FIELD', 'The `file` field is required.');
+    }
+    if (!size) {
+      return this.error('EMPTY_FILE', 'The file is empty.');
+    }
+
+    const task = this.createTask({ type: 'upload', filename, size });
+    return {
+      entity: this.entity(task, 'completed'),
+      result: { output: { connector: task.id, name: filename, size } },
+    };
+  }
+
+  /**
+   * Handle `/convert/file`.
+   */
+  private convert(data: Payload): Payload {
+    const source = this.tasks.get(this.text(data, 'connector'));
+    if (!source) {
+      return this.error('NO_CONNECTOR_DEPENDENT_TASK', 'The dependent task is not found.');
+    }
+    if (source.type === 'convert' && !this.completed(source)) {
+      return this.error('NOT_READY_DEPENDENT_TASK', 'The dependent task is not ready.');
+    }
+
+    const parameters = this.object(data, 'parameters');
+    const output = this.text(parameters, 'output');
+    const input = this.text(parameters, 'input') || this.extension(source.format ?? source.filename);
+    if (!output) {
+      return this.error('MISSING_REQUIRED_PARAMETER', 'The `output` parameter is required.');
+    }
+    if (!this.formats[this.base(input)]) {
+      return this.error('INVALID_INPUT_FORMAT', `The ${input} format is not valid.`);
+    }
+    if (!this.formats[this.base(input)]!.includes(this.base(output))) {
+      return this.error('NO_CONVERTER_INPUT_TO_OUTPUT', `No converter from ${input} to ${output}.`);
+    }
+
+    const callback = data.callback;
+    if (callback !== undefined && !this.validCallback(callback)) {
+      return this.error('INVALID_CALLBACK', 'The callback URL is not valid.');
+    }
+
+    const script = this.scripts.shift() ?? {};
+    const stem = source.filename.replace(/\.[^.]*$/, '');
+    const task = this.createTask({
+      type: 'convert',
+      filename: source.filename,
+      format: output,
+      source: source.id,
+      outcome: {
+        status: script.status ?? 'successful',
+        polls: script.polls ?? 0,
+        vcredits: script.vcredits ?? 1,
+        output: script.output ?? `Converted ${source.filename} to ${output}.`,
+        filename: script.filename ?? `${stem}.${FormatRegistry.extensionFor(output)}`,
+      },
+      pollsLeft: data.mode === 'sync' ? 0 : script.polls ?? 0,
+    });
+
+    if (typeof callback === 'string' && callback && data.mode !== 'sync') {
+      setTimeout(() => this.notify(task, callback), this._latency);
+    }
+
+    if (data.mode === 'sync') {
+      return {
+        entity: { ...this.entity(task, 'completed'), vcredits: task.outcome!.vcredits },
+        result: { output: { status: task.outcome!.status } },
+      };
+    }
+    return { entity: this.entity(task, 'running') };
+  }
+
+  /**
+   * Complete a task and deliver its task response to a callback URL.
+   * Delivery failures are ignored, as the service does not retry them.
+   */
+  private notify(task: MockTask, url: string): void {
+    task.pollsLeft = 0;
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ result: { output: this.taskOutput(task) } }),
+    }).catch(() => undefined);
+  }
+
+  /**
+   * Check whether a callback URL is an absolute HTTP(S) URL.
+   */
+  private validCallback(url: unknown): boolean {
+    if (typeof url !== 'string') return false;
+    try {
+      return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Handle `/convert/status`.
+   */
+  private status(data: Payload): Payload {
+    const task = this.tasks.get(this.text(data, 'connector'));
+    if (!task || task.type !== 'convert') {
+      return this.error('NO_CONNECTOR_DEPENDENT_TASK', 'The dependent task is not found.');
+    }
+
+    const completed = this.completed(task);
+    return {
+      result: {
+        output: {
+          task: completed ? 'completed' : 'running',
+          status: completed ? task.outcome!.status : undefined,
+        },
+      },
+    };
+  }
+
+  /**
+   * Handle `/task/response`.
+   */
+  private taskResponse(data: Payload): Payload {
+    const task = this.tasks.get(this.text(data, 'connector'));
+    if (!task) {
+      return this.error('NO_CONNECTOR_DEPENDENT_TASK', 'The dependent task is not found.');
+    }
+
+    if (!this.completed(task)) {
+      task.pollsLeft!--;
+      return {
+        result: { output: { entity: this.entity(task, 'running') } },
+      };
+    }
+
+    return {
+      result: { output: this.taskOutput(task) },
+    };
+  }
+
+  /**
+   * Handle `/download/url`.
+   */
+  private downloadUrl(data: Payload): Payload {
+    const task = this.tasks.get(this.text(data, 'connector'));
+    if (!task || task.type !== 'convert') {
+      return this.error('NO_CONNECTOR_DEPENDENT_TASK', 'The dependent task is not found.');
+    }
+    if (!this.completed(task)) {
+      return this.error('NOT_READY_DEPENDENT_TASK', 'The dependent task is not ready.');
+    }
+    if (task.outcome!.status !== 'successful') {
+      return this.error('FAILED_CONVERT', 'The conversion has failed.');
+    }
+
+    const download = this.createTask({
+      type: 'download',
+      filename: task.outcome!.filename,
+      source: task.id,
+    });
+    return {
+      entity: this.entity(download, 'completed'),
+      result: { output: { connector: download.id, name: download.filename } },
+    };
+  }
+
+  /**
+   * Handle `/download/url/get` by streaming the converted file.
+   */
+  private downloadGet(res: ServerResponse, data: Payload): void {
+    const download = this.tasks.get(this.text(data, 'connector'));
+    const task = download?.type === 'download' ? this.tasks.get(download.source!) : undefined;
+    if (!task) {
+      return this.reply(res, 200, this.error('FILE_NOT_EXISTS', 'The file does not exist.'));
+    }
+
+    const output = task.outcome!.output;
+    const bytes = typeof output === 'string' ? Buffer.from(output) : Buffer.from(output);
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': bytes.length,
+      'Content-Disposition': `attachment; filename="${task.outcome!.filename}"`,
+    });
+    res.end(bytes);
+  }
+
+  /**
+   * Handle `/format/get`.
+   */
+  private formatGet(data: Payload): Payload {
+    const format = this.text(this.object(data, 'parameters'), 'format');
+    const [name, type] = format.split('-');
+    if (!name || !this.knownFormats().has(name)) {
+      return this.error('INVALID_FORMAT', `The ${format} format is not found.`);
+    }
+
+    return {
+      result: {
+        output: {
+          name,
+          type,
+          title: name.toUpperCase(),
+          extensions: [name],
+          parameters: this.options.parameters?.[name],
+        },
+      },
+    };
+  }
+
+  /**
+   * Handle `/convert/graph`.
+   */
+  private convertGraph(data: Payload): Payload {
+    const parameters = this.object(data, 'parameters');
+    const input = this.text(parameters, 'input');
+    const output = this.text(parameters, 'output');
+    if (!this.formats[this.base(input)]?.includes(this.base(output))) {
+      return this.error('NO_CONVERTER_INPUT_TO_OUTPUT', `No converter from ${input} to ${output}.`);
+    }
+
+    const graph = this.options.graphs?.[`${input}>${output}`];
+    return {
+      result: { output: graph ?? { graph: [input, output], vcredits: 1 } },
+    };
+  }
+
+  /**
+   * Handle `/convert/formats`.
+   */
+  private convertFormats(data: Payload): Payload {
+    const parameters = this.object(data, 'parameters');
+    const sublist = parameters.sublist;
+    const format = this.text(parameters, 'format')
+      ? this.base(this.text(parameters, 'format'))
+      : undefined;
+
+    if (sublist === 'outputs') {
+      const outputs = format
+        ? this.formats[format] ?? []
+        : [...new Set(Object.values(this.formats).flat())];
+      return { result: { output: { outputs } } };
+    }
+    if (sublist === 'inputs') {
+      const inputs = Object.keys(this.formats)
+        .filter(input => !format || this.formats[input]!.includes(format));
+      return { result: { output: { inputs } } };
+    }
+    return this.error('WRONG_VALUE_PARAMETER', 'The `sublist` parameter is invalid.');
+  }
+
+  /**
+   * Build the output of a completed task response.
+   */
+  private taskOutput(task: MockTask): Payload {
+    if (task.type !== 'convert') {
+      return { entity: this.entity(task, 'completed') };
+    }
+
+    const outcome = task.outcome!;
+    return {
+      entity: { ...this.entity(task, 'completed'), vcredits: outcome.vcredits },
+      result: { output: { status: outcome.status } },
+    };
+  }
+
+  /**
+   * Create and store a new task.
+   */
+  private createTask(task: Omit<MockTask, 'id'>): MockTask {
+    const created = { ...task, id: `mock-${task.type}-${++this.counter}` };
+    this.tasks.set(created.id, created);
+    return created;
+  }
+
+  /**
+   * Build the entity object of a task.
+   */
+  private entity(task: MockTask, status: string): Payload {
+    return { id: task.id, token: `token-${task.id}`, type: task.type, status };
+  }
+
+  /**
+   * Check whether a task is completed.
+   */
+  private completed(task: MockTask): boolean {
+    return (task.pollsLeft ?? 0) <= 0;
+  }
+
+  /**
+   * Read a string field of a payload.
+   *
+   * @returns The field, or an empty string if it is not a string.
+   */
+  private text(data: Payload, key: string): string {
+    const value = data[key];
+    return typeof value === 'string' ? value : '';
+  }
+
+  /**
+   * Read an object field of a payload.
+   *
+   * @returns The field, or an empty object if it is not an object.
+   */
+  private object(data: Payload, key: string): Payload {
+    const value = data[key];
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? value as Payload
+      : {};
+  }
+
+  /**
+   * Build an error response body.
+   */
+  private error(code: string, message: string): Payload {
+    return { error: { code, message } };
+  }
+
+  /**
+   * Default HTTP status for an injected error code.
+   */
+  private statusFor(code: string): number {
+    if (code === 'INTERNAL_SERVER_ERROR') return 500;
+    if (code === 'TOO_MANY_REQUESTS') return 429;
+    return 200;
+  }
+
+  /**
+   * All formats known to the server.
+   */
+  private knownFormats(): Set<string> {
+    return new Set([...Object.keys(this.formats), ...Object.values(this.formats).flat()]);
+  }
+
+  /**
+   * Strip the type from a format[-type] string.
+   */
+  private base(format: string): string {
+    return format.toLowerCase().split('-')[0]!;
+  }
+
+  /**
+   * Derive a format from a filename extension.
+   */
+  private extension(filename: string): string {
+    const match = /\.([^.]+)$/.exec(filename);
+    return match ? match[1]!.toLowerCase() : filename.toLowerCase();
+  }
+
+  /**
+   * Send a JSON response, unless the body is an error for which
+   * `reply` was asked to use a successful status.
+   */
+  private reply(res: ServerResponse, status: number, body: Payload): void {
+    const error = this.object(body, 'error');
+    this.send(res, body.error && status === 200 ? this.statusFor(this.text(error, 'code')) : status, body);
+  }
+
+  /**
+   * Write a JSON response.
+   */
+  private send(res: ServerResponse, status: number, body: Payload): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Read the full request body.
+   */
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Extract the `data` field and the uploaded file metadata from a
+   * multipart body.
+   */
+  private parseMultipart(
+    contentType: string,
+    body: Buffer
+  ): { data?: string; filename?: string; size?: number } {
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+    if (!boundary) return {};
+
+    const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+    const result: { data?: string; filename?: string; size?: number } = {};
+
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if (next === -1) break;
+
+      const part = body.subarray(start + delimiter.length + 2, next - 2);
+      const split = part.indexOf('\r\n\r\n');
+      if (split !== -1) {
+        const headers = part.subarray(0, split).toString();
+        const content = part.subarray(split + 4);
+        const name = /name="([^"]*)"/.exec(headers)?.[1];
+        const filename = /filename="([^"]*)"/.exec(headers)?.[1];
+
+        if (filename !== undefined) {
+          result.filename = filename;
+          result.size = content.length;
+        } else if (name === 'data') {
+          result.data = content.toString();
+        }
+      }
+      start = next;
+    }
+
+    return result;
+  }
+}
@@ -5,11 +5,14 @@
 // Issues: https://github.com/vertopal/vertopal-js/issues
 //
 // Description:
-//   Internal utility classes that provide safe access to nested objects
-//   and robust parsing of structured API errors and warnings.
+//   Internal utility classes that provide safe access to nested objects,
+//   robust parsing of structured API errors and warnings, and shape
+//   validation of API responses.
 //   These classes are not part of the public API and are intended for
 //   internal use by other Vertopal modules.
 
+import { InvalidJSONResponseError } from '../common/exceptions.ts';
+
 /**
  * Internal utility class for parsing structured API responses to extract
  * error and warning information. Provides helper methods to detect and
@@ -141,3 +144,124 @@ export class ErrorWrapper {
     return warnings;
   }
 }
+
+/**
+ * Expected type of a value checked by `ShapeValidator`.
+ */
+export type ShapeType = 'object' | 'string' | 'number' | 'boolean' | 'array' | 'string[]';
+
+/**
+ * Internal utility class for validating the shape of structured API
+ * responses. Each check verifies the type of the value at a nested path
+ * and throws `InvalidJSONResponseError` naming the offending path when
+ * it does not match.
+ */
+export class ShapeValidator {
+  private readonly response: unknown;
+  private readonly label: string;
+
+  /**
+   * Create a new ShapeValidator.
+   *
+   * @param response - The API response object to validate.
+   * @param label - Name of the response used in error messages.
+   */
+  constructor(response: unknown, label: string) {
+    this.response = response;
+    this.label = label;
+  }
+
+  /**
+   * Require a value of the given type at a path.
+   *
+   * @param path - Dot-separated path of the value (empty for the root).
+   * @param type - Expected type of the value.
+   * @returns This validator, for chaining.
+   * @throws InvalidJSONResponseError - If the value is missing or mistyped.
+   */
+  require(path: string, type: ShapeType): this {
+    this.check(path, type, false);
+    return this;
+  }
+
+  /**
+   * Check the type of a value at a path only if it is present.
+   *
+   * @param path - Dot-separated path of the value.
+   * @param type - Expected type of the value.
+   * @returns This validator, for chaining.
+   * @throws InvalidJSONResponseError - If the value is present but mistyped.
+   */
+  optional(path: string, type: ShapeType): this {
+    this.check(path, type, true);
+    return this;
+  }
+
+  /**
+   * Check whether a value is present at a path.
+   *
+   * @param path - Dot-separated path of the value.
+   * @returns True if the value is neither `undefined` nor `null`.
+   */
+  has(path: string): boolean {
+    const value = this.getByPath(path);
+    return value !== undefined && value !== null;
+  }
+
+  /**
+   * Validate a single value.
+   *
+   * @param path - Dot-separated path of the value.
+   * @param type - Expected type of the value.
+   * @param optional - If true, missing values are accepted.
+   * @returns Void.
+   * @throws InvalidJSONResponseError - If the value does not match.
+   */
+  private check(path: string, type: ShapeType, optional: boolean): void {
+    const value = this.getByPath(path);
+    if (optional && (value === undefined || value === null)) {
+      return;
+    }
+
+    let valid: boolean;
+    switch (type) {
+      case 'object':
+        valid = typeof value === 'object' && value !== null && !Array.isArray(value);
+        break;
+      case 'array':
+        valid = Array.isArray(value);
+        break;
+      case 'string[]':
+        valid = Array.isArray(value) && value.every(item => typeof item === 'string');
+        break;
+      default:
+        valid = typeof value === type;
+    }
+
+    if (!valid) {
+      const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+      throw new InvalidJSONResponseError(
+        `Invalid ${this.label} response: expected ${type} at ` +
+        `\`${path || '(root)'}\`, got ${actual}.`,
+        { response: this.response }
+      );
+    }
+  }
+
+  /**
+   * Traverse the response using a dot-separated path.
+   *
+   * @param path - Dot-separated path of the value.
+   * @returns The value at the path, or `undefined` if not found.
+   */
+  private getByPath(path: string): unknown {
+    let data: unknown = this.response;
+    for (const key of path ? path.split('.') : []) {
+      if (typeof data !== 'object' || data === null) {
+        return undefined;
+      }
+      data = (data as Record<string, unknown>)[key];
+    }
+    return data;
+  }
+}
@@ -7,7 +7,8 @@
 // Description:
 //   Exception handling utilities for Vertopal API responses.
 //   Provides a mapping between API error codes and custom exception classes,
-//   and the ExceptionHandler class for inspecting JSON responses.
+//   and the ExceptionHandler class for inspecting JSON responses and
+//   rehydrating serialized exceptions.
 
 import * as vex from '../common/exceptions.ts';
 import { ErrorWrapper } from './dataWrappers.ts';
@@ -15,7 +16,10 @@ import { ErrorWrapper } from './dataWrappers.ts';
 /**
  * A mapping of API error codes to custom exception classes.
  */
-export const ERROR_CODE_MAP: Record<string, new (message: string) => Error> = {
+export const ERROR_CODE_MAP: Record<
+  string,
+  new (message?: string, details?: vex.APIExceptionDetails) => vex.APIException
+> = {
   INTERNAL_SERVER_ERROR: vex.InternalServerError,
   NOT_FOUND: vex.NotFoundError,
   POST_METHOD_ALLOWED: vex.PostMethodAllowedError,
@@ -77,23 +81,118 @@ export class ExceptionHandler {
    * If warnings are found, they are logged to the console.
    *
    * @param response - The JSON response object returned by the Vertopal API.
+   * @param context - Optional request context (endpoint, HTTP status,
+   *                  request ID, attempt) attached to the raised exception.
    * @returns Void.
    * @throws APIException or a subclass defined in ERROR_CODE_MAP
    *         when an error code is detected in the response.
    */
-  static raiseForResponse(response: Record<string, any>): void {
+  static raiseForResponse(
+    response: Record<string, any>,
+    context: Omit<vex.APIExceptionDetails, 'code' | 'response' | 'warnings'> = {}
+  ): void {
     const wrapper = new ErrorWrapper(response);
+    const warnings = wrapper.hasWarning() ? wrapper.getWarnings() : [];
 
     if (wrapper.hasError()) {
       const code = wrapper.getErrorCode();
       const message = wrapper.getErrorMessage();
       const ExceptionClass = ERROR_CODE_MAP[code] ?? vex.APIException;
-      throw new ExceptionClass(`[${code}] ${message}`);
+      throw new ExceptionClass(`[${code}] ${message}`, {
+        ...context,
+        code,
+        response,
+        warnings,
+      });
     }
 
-    if (wrapper.hasWarning()) {
-      const warnings = wrapper.getWarnings();
+    if (warnings.length) {
       console.warn('Warning(s) encountered:', warnings);
     }
   }
+
+  /**
+   * Register the exception class raised for an API error code.
+   *
+   * Allows applications to map new server error codes to their own
+   * exception classes, or to override the built-in mappings.
+   *
+   * @param code - API error code (e.g. "NEW_ERROR_CODE").
+   * @param exceptionClass - Exception class to raise for the code.
+   * @returns Void.
+   * @throws Error - If `exceptionClass` does not extend `APIException`.
+   */
+  static registerErrorCode(
+    code: string,
+    exceptionClass: new (message?: string, details?: vex.APIExceptionDetails) => vex.APIException
+  ): void {
+    if (
+      exceptionClass !== vex.APIException &&
+      !(exceptionClass.prototype instanceof vex.APIException)
+    ) {
+      throw new Error('`exceptionClass` must extend APIException.');
+    }
+    ERROR_CODE_MAP[code] = exceptionClass;
+  }
+
+  /**
+   * Rehydrate an exception serialized with `APIException.toJSON()`.
+   *
+   * The exception class is looked up by name among the library's
+   * exception classes, falling back to `APIException` for unknown names.
+   * Serialized causes are rehydrated recursively.
+   *
+   * @param json - The serialized exception.
+   * @returns A new exception instance of the original class.
+   */
+  static fromJSON(json: vex.SerializedAPIException): vex.APIException {
+    const candidate = (vex as Record<string, unknown>)[json.name];
+    const ExceptionClass =
+      typeof candidate === 'function' &&
+      (candidate === vex.APIException || candidate.prototype instanceof vex.APIException)
+        ? candidate as typeof vex.APIException
+        : vex.APIException;
+
+    const { name, message, stack, cause, ...details } = json;
+    const rehydratedCause = ExceptionHandler.causeFromJSON(cause);
+    const error = new ExceptionClass(message, {
+      ...details,
+      ...(cause !== undefined ? { cause: rehydratedCause } : {}),
+    });
+
+    error.name = name;
+    if (stack) {
+      error.stack = stack;
+    }
+    return error;
+  }
+
+  /**
+   * Rehydrate a serialized exception cause.
+   *
+   * @param cause - The serialized cause.
+   * @returns The rehydrated cause: an exception, an `Error`, or the
+   *          value itself if it is not a serialized error.
+   */
+  private static causeFromJSON(cause: unknown): unknown {
+    if (
+      typeof cause !== 'object' || cause === null ||
+      typeof (cause as Record<string, unknown>).name !== 'string' ||
+      typeof (cause as Record<string, unknown>).message !== 'string'
+    ) {
+      return cause;
+    }
+
+    const serialized = cause as vex.SerializedAPIException;
+    if (serialized.name in vex) {
+      return ExceptionHandler.fromJSON(serialized);
+    }
+
+    const error = new Error(serialized.message);
+    error.name = serialized.name;
+    if (serialized.stack) {
+      error.stack = serialized.stack;
+    }
+    return error;
+  }
 }
@@ -0,0 +1,284 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Registry mapping formats to their filename extensions and MIME types.
+//   Used to fill in the content type of uploads and to name converted
+//   files. Custom or internal formats can be registered at runtime.
+
+import { canonicalizeFormat, getExtension } from './misc.ts';
+
+/**
+ * Extensions and MIME types of a format.
+ *
+ * @property extensions - Filename extensions without the dot; the first
+ *                        one is used when naming files.
+ * @property mimeTypes - MIME types; the first one is used as the content
+ *                       type of uploads.
+ */
+export interface FormatDefinition {
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+/**
+ * Built-in format definitions.
+ */
+const BUILTIN_FORMATS: Record<string, FormatDefinition> = {
+  // Documents
+  'pdf': { extensions: ['pdf'], mimeTypes: ['application/pdf'] },
+  'doc': { extensions: ['doc', 'dot'], mimeTypes: ['application/msword'] },
+  'docx': {
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  'odt': { extensions: ['odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'] },
+  'rtf': { extensions: ['rtf'], mimeTypes: ['application/rtf', 'text/rtf'] },
+  'txt': { extensions: ['txt', 'text'], mimeTypes: ['text/plain'] },
+  'md': { extensions: ['md', 'markdown'], mimeTypes: ['text/markdown'] },
+  'html': { extensions: ['html', 'htm'], mimeTypes: ['text/html'] },
+  'xml': { extensions: ['xml'], mimeTypes: ['application/xml', 'text/xml'] },
+  'json': { extensions: ['json'], mimeTypes: ['application/json'] },
+  'csv': { extensions: ['csv'], mimeTypes: ['text/csv'] },
+  'tex': { extensions: ['tex'], mimeTypes: ['application/x-tex'] },
+  'epub': { extensions: ['epub'], mimeTypes: ['application/epub+zip'] },
+  'mobi': { extensions: ['mobi'], mimeTypes: ['application/x-mobipocket-ebook'] },
+  'djvu': { extensions: ['djvu', 'djv'], mimeTypes: ['image/vnd.djvu'] },
+  'xps': { extensions: ['xps'], mimeTypes: ['application/vnd.ms-xpsdocument'] },
+  'ps': { extensions: ['ps'], mimeTypes: ['application/postscript'] },
+  'eps': { extensions: ['eps'], mimeTypes: ['application/postscript'] },
+
+  // Spreadsheets and presentations
+  'xls': { extensions: ['xls'], mimeTypes: ['application/vnd.ms-excel'] },
+  'xlsx': {
+    extensions: ['xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  'ods': { extensions: ['ods'], mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'] },
+  'ppt': { extensions: ['ppt'], mimeTypes: ['application/vnd.ms-powerpoint'] },
+  'pptx': {
+    extensions: ['pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  },
+  'odp': { extensions: ['odp'], mimeTypes: ['application/vnd.oasis.opendocument.presentation'] },
+
+  // Images
+  'jpg': { extensions: ['jpg', 'jpeg', 'jpe', 'jfif'], mimeTypes: ['image/jpeg'] },
+  'png': { extensions: ['png'], mimeTypes: ['image/png'] },
+  'apng': { extensions: ['apng'], mimeTypes: ['image/apng'] },
+  'gif': { extensions: ['gif'], mimeTypes: ['image/gif'] },
+  'webp': { extensions: ['webp'], mimeTypes: ['image/webp'] },
+  'bmp': { extensions: ['bmp', 'dib'], mimeTypes: ['image/bmp'] },
+  'tiff': { extensions: ['tiff', 'tif'], mimeTypes: ['image/tiff'] },
+  'svg': { extensions: ['svg', 'svgz'], mimeTypes: ['image/svg+xml'] },
+  'ico': { extensions: ['ico'], mimeTypes: ['image/vnd.microsoft.icon', 'image/x-icon'] },
+  'heic': { extensions: ['heic'], mimeTypes: ['image/heic'] },
+  'heif': { extensions: ['heif'], mimeTypes: ['image/heif'] },
+  'avif': { extensions: ['avif'], mimeTypes: ['image/avif'] },
+  'jxl': { extensions: ['jxl'], mimeTypes: ['image/jxl'] },
+  'psd': { extensions: ['psd'], mimeTypes: ['image/vnd.adobe.photoshop'] },
+
+  // Audio
+  'mp3': { extensions: ['mp3'], mimeTypes: ['audio/mpeg'] },
+  'wav': { extensions: ['wav'], mimeTypes: ['audio/wav', 'audio/x-wav'] },
+  'flac': { extensions: ['flac'], mimeTypes: ['audio/flac'] },
+  'ogg': { extensions: ['ogg', 'oga'], mimeTypes: ['audio/ogg'] },
+  'opus': { extensions: ['opus'], mimeTypes: ['audio/opus'] },
+  'aac': { extensions: ['aac'], mimeTypes: ['audio/aac'] },
+  'm4a': { extensions: ['m4a'], mimeTypes: ['audio/mp4'] },
+  'wma': { extensions: ['wma'], mimeTypes: ['audio/x-ms-wma'] },
+  'mid': { extensions: ['mid', 'midi'], mimeTypes: ['audio/midi'] },
+
+  // Video
+  'mp4': { extensions: ['mp4', 'm4v'], mimeTypes: ['video/mp4'] },
+  'mov': { extensions: ['mov', 'qt'], mimeTypes: ['video/quicktime'] },
+  'mkv': { extensions: ['mkv'], mimeTypes: ['video/x-matroska'] },
+  'webm': { extensions: ['webm'], mimeTypes: ['video/webm'] },
+  'avi': { extensions: ['avi'], mimeTypes: ['video/x-msvideo'] },
+  'wmv': { extensions: ['wmv'], mimeTypes: ['video/x-ms-wmv'] },
+  'flv': { extensions: ['flv'], mimeTypes: ['video/x-flv'] },
+  '3gp': { extensions: ['3gp'], mimeTypes: ['video/3gpp'] },
+  'mpeg': { extensions: ['mpeg', 'mpg'], mimeTypes: ['video/mpeg'] },
+
+  // Fonts
+  'ttf': { extensions: ['ttf'], mimeTypes: ['font/ttf'] },
+  'otf': { extensions: ['otf'], mimeTypes: ['font/otf'] },
+  'woff': { extensions: ['woff'], mimeTypes: ['font/woff'] },
+  'woff2': { extensions: ['woff2'], mimeTypes: ['font/woff2'] },
+
+  // Archives
+  'zip': { extensions: ['zip'], mimeTypes: ['application/zip'] },
+  '7z': { extensions: ['7z'], mimeTypes: ['application/x-7z-compressed'] },
+  'rar': { extensions: ['rar'], mimeTypes: ['application/vnd.rar'] },
+  'tar': { extensions: ['tar'], mimeTypes: ['application/x-tar'] },
+  'gz': { extensions: ['gz'], mimeTypes: ['application/gzip'] },
+  'bz2': { extensions: ['bz2'], mimeTypes: ['application/x-bzip2'] },
+  'xz': { extensions: ['xz'], mimeTypes: ['application/x-xz'] },
+};
+
+/**
+ * Global registry of format extensions and MIME types.
+ *
+ * Lookups resolve formats registered via `register()` first, then the
+ * built-in definitions. Formats are matched by their base name, so
+ * "svg-inkscape" resolves to the "svg" definition.
+ */
+export class FormatRegistry {
+  private static _custom: Record<string, FormatDefinition> = {};
+
+  /**
+   * Register a format, replacing any existing definition of it.
+   *
+   * @param format - Format name.
+   * @param definition - Extensions and MIME types of the format. Missing
+   *                     lists default to the format name as the only
+   *                     extension and no MIME types.
+   * @returns Void.
+   * @throws Error - If the format name is empty.
+   */
+  public static register(format: string, definition: Partial<FormatDefinition>): void {
+    const name = canonicalizeFormat(format);
+    if (!name) {
+      throw new Error('A format name is required to register a format.');
+    }
+
+    this._custom[name] = {
+      extensions: (definition.extensions ?? [name])
+        .map(extension => canonicalizeFormat(extension))
+        .filter((extension): extension is string => !!extension),
+      mimeTypes: (definition.mimeTypes ?? []).map(mimeType => mimeType.toLowerCase()),
+    };
+  }
+
+  /**
+   * Get the definition of a format.
+   *
+   * @param format - Format[-type] string.
+   * @returns The format definition, or `undefined` if it is not registered.
+   */
+  public static get(format: string): FormatDefinition | undefined {
+    const name = canonicalizeFormat(format)?.split('-')[0];
+    if (!name) return;
+    return this._custom[name] ?? BUILTIN_FORMATS[name];
+  }
+
+  /**
+   * Get the extension used when naming files of a format.
+   *
+   * @param format - Format[-type] string.
+   * @returns The preferred extension, or the base format name if the
+   *          format is not registered.
+   */
+  public static extensionFor(format: string): string {
+    const name = canonicalizeFormat(format)?.split('-')[0] ?? '';
+    return this.get(name)?.extensions[0] ?? name;
+  }
+
+  /**
+   * Get the MIME type of a format.
+   *
+   * @param format - Format[-type] string.
+   * @returns The preferred MIME type, or `undefined` if it is not known.
+   */
+  public static mimeTypeFor(format: string): string | undefined {
+    return this.get(format)?.mimeTypes[0];
+  }
+
+  /**
+   * Find the format a filename extension belongs to.
+   *
+   * @param extension - Extension with or without the leading dot.
+   * @returns The format name, or `undefined` if it is not registered.
+   */
+  public static formatForExtension(extension: string): string | undefined {
+    const name = canonicalizeFormat(extension);
+    if (!name) return;
+    return this.find(definition => definition.extensions.includes(name));
+  }
+
+  /**
+   * Find the format a MIME type belongs to.
+   *
+   * Parameters such as "; charset=utf-8" are ignored.
+   *
+   * @param mimeType - MIME type string.
+   * @returns The format name, or `undefined` if it is not registered.
+   */
+  public static formatForMimeType(mimeType: string): string | undefined {
+    const name = mimeType.split(';')[0]!.trim().toLowerCase();
+    if (!name) return;
+    return this.find(definition => definition.mimeTypes.includes(name));
+  }
+
+  /**
+   * Get the MIME type of a file from its extension.
+   *
+   * @param filename - Filename or path.
+   * @returns The MIME type, or `undefined` if the extension is not known.
+   */
+  public static mimeTypeForFilename(filename?: string): string | undefined {
+    const extension = getExtension(filename);
+    const format = extension && this.formatForExtension(extension);
+    return format ? this.mimeTypeFor(format) : undefined;
+  }
+
+  /**
+   * Give a filename the extension of a format.
+   *
+   * Filenames that already carry one of the format's extensions are kept
+   * as they are; otherwise the current extension, if any, is replaced.
+   *
+   * Examples:
+   * ```ts
+   * FormatRegistry.filenameFor("report.docx", "pdf")  // "report.pdf"
+   * FormatRegistry.filenameFor("photo.jpeg", "jpg")   // "photo.jpeg"
+   * FormatRegistry.filenameFor("notes", "txt")        // "notes.txt"
+   * ```
+   *
+   * @param filename - Filename or path.
+   * @param format - Format[-type] string.
+   * @returns The filename with a matching extension.
+   */
+  public static filenameFor(filename: string, format: string): string {
+    const extension = getExtension(filename);
+    const extensions = this.get(format)?.extensions ?? [this.extensionFor(format)];
+    if (extension && extensions.includes(extension)) {
+      return filename;
+    }
+
+    const stem = extension ? filename.slice(0, -(extension.length + 1)) : filename;
+    return `${stem}.${this.extensionFor(format)}`;
+  }
+
+  /**
+   * Remove all formats registered via `register()`.
+   *
+   * @returns Void.
+   */
+  public static clear(): void {
+    this._custom = {};
+  }
+
+  /**
+   * Find the first format whose definition matches a predicate,
+   * checking registered formats before built-in ones.
+   *
+   * @param predicate - Function testing a definition.
+   * @returns The format name, or `undefined` if none matches.
+   */
+  private static find(
+    predicate: (definition: FormatDefinition) => boolean
+  ): string | undefined {
+    for (const [name, definition] of Object.entries(this._custom)) {
+      if (predicate(definition)) return name;
+    }
+    for (const [name, definition] of Object.entries(BUILTIN_FORMATS)) {
+      if (name in this._custom) continue;
+      if (predicate(definition)) return name;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,290 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Content-based format detection. Reads the first bytes of an input
+//   and matches them against the signatures ("magic bytes") of common
+//   document, image, audio, video, font and archive formats.
+
+import type { Readable } from '../io/protocols.ts';
+import { StreamChunker } from './streamChunker.ts';
+import { getExtension } from './misc.ts';
+
+/**
+ * A format signature: bytes expected at an offset of the file head.
+ * String bytes are matched as ASCII.
+ */
+interface Signature {
+  format: string;
+  offset?: number;
+  bytes: number[] | string;
+}
+
+/**
+ * Signatures checked in order; more specific ones come first.
+ *
+ * Signatures short enough to open plain text files, such as "BM" for
+ * BMP, bare MP3 frame sync bytes or a bare JPEG XL codestream, are left
+ * out, and short magic strings such as "ID3" or "FLV" are only matched
+ * together with the version bytes that follow them: a wrong detection
+ * fails the conversion, while no detection falls back to the extension.
+ */
+const SIGNATURES: Signature[] = [
+  { format: 'pdf', bytes: '%PDF-' },
+  { format: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { format: 'jpg', bytes: [0xff, 0xd8, 0xff] },
+  { format: 'gif', bytes: 'GIF87a' },
+  { format: 'gif', bytes: 'GIF89a' },
+  { format: 'webp', offset: 8, bytes: 'WEBP' },
+  { format: 'wav', offset: 8, bytes: 'WAVE' },
+  { format: 'avi', offset: 8, bytes: 'AVI ' },
+  { format: 'tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { format: 'tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { format: 'psd', bytes: '8BPS' },
+  { format: 'ico', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { format: 'jxl', bytes: [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a] },
+  { format: 'flac', bytes: 'fLaC' },
+  { format: 'ogg', bytes: 'OggS' },
+  { format: 'mid', bytes: 'MThd' },
+  { format: 'mp3', bytes: 'ID3\x02\x00' },
+  { format: 'mp3', bytes: 'ID3\x03\x00' },
+  { format: 'mp3', bytes: 'ID3\x04\x00' },
+  { format: 'flv', bytes: 'FLV\x01' },
+  { format: 'wmv', bytes: [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11] },
+  { format: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { format: 'rar', bytes: 'Rar!\x1a\x07' },
+  { format: 'gz', bytes: [0x1f, 0x8b, 0x08] },
+  // The block size digit, then the magic of the first compressed block.
+  ...Array.from('123456789', level => ({ format: 'bz2', bytes: `BZh${level}1AY&SY` })),
+  { format: 'xz', bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { format: 'tar', offset: 257, bytes: 'ustar' },
+  { format: 'woff', bytes: 'wOFF' },
+  { format: 'woff2', bytes: 'wOF2' },
+  { format: 'otf', bytes: 'OTTO' },
+  { format: 'ttf', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+  { format: 'rtf', bytes: '{\\rtf' },
+  { format: 'ps', bytes: '%!PS' },
+];
+
+/**
+ * ISO base media file brands (at offset 8, after "ftyp") and their formats.
+ */
+const FTYP_BRANDS: Record<string, string> = {
+  'isom': 'mp4',
+  'iso2': 'mp4',
+  'mp41': 'mp4',
+  'mp42': 'mp4',
+  'avc1': 'mp4',
+  'dash': 'mp4',
+  'M4V ': 'mp4',
+  'M4A ': 'm4a',
+  'M4B ': 'm4b',
+  'qt  ': 'mov',
+  '3gp4': '3gp',
+  '3gp5': '3gp',
+  '3g2a': '3g2',
+  'heic': 'heic',
+  'heix': 'heic',
+  'mif1': 'heif',
+  'avif': 'avif',
+  'crx ': 'cr3',
+};
+
+/**
+ * Generic container formats that many specific formats are stored in,
+ * such as ZIP for `.cbz` comics and XML for `.kml` or `.gpx` files.
+ */
+const GENERIC_CONTAINERS = ['zip', 'xml'];
+
+/**
+ * Formats stored as OLE2 compound files, which cannot be told apart
+ * from their first bytes.
+ */
+const OLE_BASED_FORMATS = ['doc', 'xls', 'ppt', 'msg', 'vsd', 'pub'];
+
+/**
+ * Detects file formats from their content.
+ *
+ * Detection looks at the first `HEAD_SIZE` bytes only. Container
+ * formats are narrowed down where their head allows it; ambiguous
+ * containers such as OLE2 files fall back to the filename extension
+ * when it names one of the possible formats. When only a generic
+ * container such as ZIP or XML is recognized, the filename extension
+ * is kept, as it usually names the more specific format.
+ */
+export class FormatSniffer {
+
+  /**
+   * Number of bytes read from the start of an input.
+   */
+  static readonly HEAD_SIZE = 4096;
+
+  /**
+   * Detect the format of a readable input.
+   *
+   * The input is opened separately from the upload, so it must be
+   * possible to open it more than once, as with `FileInput` and
+   * `BrowserFileInput`.
+   *
+   * @param readable - The input to inspect.
+   * @returns The detected format, or `undefined` if it is not recognized.
+   */
+  static async sniff(readable: Readable): Promise<string | undefined> {
+    const head = await FormatSniffer.readHead(readable);
+    return FormatSniffer.detect(head, readable.filename);
+  }
+
+  /**
+   * Detect a format from the first bytes of a file.
+   *
+   * @param head - The first bytes of the file.
+   * @param filename - Optional filename used to resolve ambiguous containers.
+   * @returns The detected format, or `undefined` if it is not recognized.
+   */
+  static detect(head: Uint8Array, filename?: string): string | undefined {
+    const extension = getExtension(filename);
+    const format = FormatSniffer.detectHead(head, extension);
+
+    return format && GENERIC_CONTAINERS.includes(format) && extension ? extension : format;
+  }
+
+  /**
+   * Detect a format from the first bytes of a file, without preferring
+   * the extension over generic containers.
+   *
+   * @param head - The first bytes of the file.
+   * @param extension - Optional filename extension.
+   * @returns The detected format, or `undefined` if it is not recognized.
+   */
+  private static detectHead(head: Uint8Array, extension?: string): string | undefined {
+
+    if (matches(head, 4, 'ftyp')) {
+      return FTYP_BRANDS[ascii(head, 8, 4)];
+    }
+    if (matches(head, 0, [0x1a, 0x45, 0xdf, 0xa3])) {
+      return ascii(head, 0, head.length).includes('webm') ? 'webm' : 'mkv';
+    }
+    if (matches(head, 0, 'PK\x03\x04')) {
+      return FormatSniffer.detectZip(head);
+    }
+    if (matches(head, 0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+      return extension && OLE_BASED_FORMATS.includes(extension) ? extension : undefined;
+    }
+
+    const signature = SIGNATURES.find(({ offset = 0, bytes }) => matches(head, offset, bytes));
+    if (signature) {
+      return signature.format;
+    }
+
+    return FormatSniffer.detectText(head);
+  }
+
+  /**
+   * Narrow down a ZIP-based format from its first entries.
+   *
+   * @param head - The first bytes of the file.
+   * @returns The detected format, or "zip" if the entries do not tell.
+   */
+  private static detectZip(head: Uint8Array): string {
+    const text = ascii(head, 0, head.length);
+
+    const mimetype = /mimetypeapplication\/([\w.+-]+)/.exec(text)?.[1];
+    if (mimetype === 'epub+zip') return 'epub';
+    if (mimetype?.startsWith('vnd.oasis.opendocument.')) {
+      const kind = mimetype.slice('vnd.oasis.opendocument.'.length);
+      return ({ text: 'odt', spreadsheet: 'ods', presentation: 'odp', graphics: 'odg' } as
+        Record<string, string>)[kind] ?? 'zip';
+    }
+
+    if (text.includes('word/')) return 'docx';
+    if (text.includes('xl/')) return 'xlsx';
+    if (text.includes('ppt/')) return 'pptx';
+
+    return 'zip';
+  }
+
+  /**
+   * Detect text-based formats such as SVG, HTML and XML.
+   *
+   * @param head - The first bytes of the file.
+   * @returns The detected format, or `undefined` if it is not recognized.
+   */
+  private static detectText(head: Uint8Array): string | undefined {
+    const text = ascii(head, 0, head.length)
+      .replace(/^\xef\xbb\xbf/, '')
+      .trimStart()
+      .toLowerCase();
+
+    if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+      return 'svg';
+    }
+    if (text.startsWith('<!doctype html') || text.startsWith('<html')) {
+      return 'html';
+    }
+    if (text.startsWith('<?xml')) {
+      return 'xml';
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the first bytes of a readable input.
+   *
+   * @param readable - The input to read.
+   * @returns Up to `HEAD_SIZE` bytes from the start of the input.
+   */
+  private static async readHead(readable: Readable): Promise<Uint8Array> {
+    if ('blob' in readable && readable.blob instanceof Blob) {
+      const slice = readable.blob.slice(0, FormatSniffer.HEAD_SIZE);
+      return new Uint8Array(await slice.arrayBuffer());
+    }
+
+    const stream = await readable.open();
+    const chunker = new StreamChunker(stream, FormatSniffer.HEAD_SIZE, []);
+    let head: Uint8Array = new Uint8Array(0);
+
+    for await (const chunk of chunker.chunks()) {
+      head = chunk;
+      break;
+    }
+
+    if ('cancel' in stream && typeof stream.cancel === 'function') {
+      await stream.cancel().catch(() => undefined);
+    }
+    return head;
+  }
+}
+
+/**
+ * Check whether bytes appear at an offset of the file head.
+ *
+ * @param head - The first bytes of the file.
+ * @param offset - Offset of the expected bytes.
+ * @param bytes - Expected bytes, or an ASCII string.
+ * @returns `true` if the bytes match.
+ */
+function matches(head: Uint8Array, offset: number, bytes: number[] | string): boolean {
+  const expected = typeof bytes === 'string'
+    ? Array.from(bytes, char => char.charCodeAt(0))
+    : bytes;
+
+  if (head.length < offset + expected.length) {
+    return false;
+  }
+  return expected.every((byte, index) => head[offset + index] === byte);
+}
+
+/**
+ * Decode part of the file head as Latin-1 text.
+ *
+ * @param head - The first bytes of the file.
+ * @param offset - Offset to start at.
+ * @param length - Number of bytes to decode.
+ * @returns The decoded text.
+ */
+function ascii(head: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...head.subarray(offset, offset + length));
+}
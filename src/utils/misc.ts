@@ -7,9 +7,10 @@
 // Description:
 //   Miscellaneous utility functions for the Vertopal JavaScript library.
 //   Provides small, reusable helpers for format normalization, environment
-//   detection, and other common tasks.
+//   detection, timing, and other common tasks.
 
 import pkg from '../../package.json' with { type: 'json' };
+import { ConversionAbortedError } from '../common/exceptions.ts';
 
 /**
  * Normalize a format string to its canonical lowercase form.
@@ -39,6 +40,118 @@ export function canonicalizeFormat(formatName?: string): string | undefined {
   return formatName || undefined;
 }
 
+/**
+ * Get the canonical extension of a filename.
+ *
+ * Examples:
+ * ```ts
+ * getExtension("Report.PDF")     // "pdf"
+ * getExtension("archive.tar.gz") // "gz"
+ * getExtension("README")         // undefined
+ * ```
+ *
+ * @param filename Filename or path, or undefined
+ * @returns Lowercase extension without the dot, or undefined
+ */
+export function getExtension(filename?: string): string | undefined {
+  const match = /\.([^./\\]+)$/.exec(filename ?? '');
+  return match ? canonicalizeFormat(match[1]) : undefined;
+}
+
+/**
+ * Pause execution for the given duration.
+ *
+ * @param ms - Duration to sleep in milliseconds.
+ * @param signal - Optional `AbortSignal` that cancels the sleep.
+ * @returns A promise that resolves after the duration has elapsed.
+ * @throws ConversionAbortedError - If the signal is aborted before
+ *                                  or during the sleep.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((res, rej) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      rej(new ConversionAbortedError(abortReason(signal!)));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      res();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Call a check until it reports completion, sleeping between calls.
+ *
+ * Used for polling the status of long-running tasks. The check runs
+ * once before the first sleep, so a completed task is not waited for.
+ *
+ * @param check - Function resolving to `true` once polling should stop.
+ * @param intervals - Sleep durations in seconds between checks, such as
+ *                    `SLEEP_PATTERN`; the last one repeats.
+ * @param signal - Optional `AbortSignal` that stops polling.
+ * @param pause - Optional sleep function replacing `sleep`, called with
+ *                the duration in milliseconds.
+ * @returns A promise that resolves once the check reports completion.
+ * @throws Error - If an interval is not a valid number.
+ * @throws ConversionAbortedError - If the signal is aborted.
+ */
+export async function poll(
+  check: () => Promise<boolean>,
+  intervals: number[],
+  signal?: AbortSignal,
+  pause: (ms: number) => Promise<void> = ms => sleep(ms, signal)
+): Promise<void> {
+  let step = 0;
+  while (!(await check())) {
+    const interval = intervals[step];
+
+    if (typeof interval === 'number') {
+      await pause(interval * 1000);
+      throwIfAborted(signal);
+    } else {
+      throw new Error(`pollIntervals[${step}] is not a valid number: ${interval}`);
+    }
+
+    if (step < intervals.length - 1) {
+      step++;
+    }
+  }
+}
+
+/**
+ * Throw if the given signal has been aborted.
+ *
+ * @param signal - Optional `AbortSignal` to check.
+ * @returns Void.
+ * @throws ConversionAbortedError - If the signal is aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ConversionAbortedError(abortReason(signal));
+  }
+}
+
+/**
+ * Describe why a signal was aborted.
+ *
+ * @param signal - An aborted `AbortSignal`.
+ * @returns A human-readable abort message.
+ */
+function abortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (reason instanceof Error && reason.name !== 'AbortError') {
+    return `Aborted: ${reason.message}`;
+  }
+  if (typeof reason === 'string' && reason) {
+    return `Aborted: ${reason}`;
+  }
+  return 'The operation was aborted.';
+}
+
 /**
  * Detect if the current runtime environment is Node.js.
  *
@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Streaming multipart/form-data encoder for the Vertopal JavaScript
+//   library. Produces a request body that pulls file contents chunk by
+//   chunk from the source stream, so uploads use constant memory
+//   regardless of the file size.
+
+import type { BrowserReadableStream } from '../io/protocols.ts';
+import { StreamChunker } from './streamChunker.ts';
+
+/**
+ * File part description for a multipart request body.
+ *
+ * @property stream - Source stream providing the file contents.
+ * @property blob - Optional `Blob` (or `File`) that can be attached as-is
+ *                  instead of reading from `stream`.
+ * @property filename - Filename reported in the part headers.
+ * @property contentType - MIME type reported in the part headers.
+ * @property chunkSize - Size of chunks in bytes pulled from `stream`.
+ */
+export interface MultipartFile {
+  stream?: NodeJS.ReadableStream | BrowserReadableStream;
+  blob?: Blob;
+  filename: string;
+  contentType: string;
+  chunkSize: number;
+}
+
+/**
+ * Internal utility class that encodes string fields and file streams
+ * as a `multipart/form-data` body without buffering the files.
+ *
+ * The encoded body is exposed either as an async generator of byte
+ * chunks or as a `ReadableStream` suitable for a fetch request body.
+ */
+export class MultipartEncoder {
+  private readonly data: Record<string, string>;
+  private readonly files: Record<string, MultipartFile>;
+  private readonly _boundary: string;
+  private readonly encoder = new TextEncoder();
+
+  /**
+   * Create a new MultipartEncoder.
+   *
+   * @param data - Key-value map of string fields.
+   * @param files - Key-value map of file parts.
+   * @param boundary - Optional boundary string; generated if omitted.
+   */
+  constructor(
+    data: Record<string, string> = {},
+    files: Record<string, MultipartFile> = {},
+    boundary?: string
+  ) {
+    this.data = data;
+    this.files = files;
+    this._boundary = boundary ?? MultipartEncoder.generateBoundary();
+  }
+
+  /**
+   * Generate a random multipart boundary string.
+   *
+   * @returns A boundary string that is unlikely to occur in the payload.
+   */
+  static generateBoundary(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return `----VertopalFormBoundary${hex}`;
+  }
+
+  /**
+   * Boundary string separating the parts of the body.
+   *
+   * @returns The boundary string.
+   */
+  get boundary(): string {
+    return this._boundary;
+  }
+
+  /**
+   * Value for the `Content-Type` header of the encoded body.
+   *
+   * @returns The multipart content type including the boundary.
+   */
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this._boundary}`;
+  }
+
+  /**
+   * Encode the body, yielding byte chunks as they are produced.
+   *
+   * File contents are pulled from their source streams only when the
+   * consumer requests the next chunk.
+   *
+   * @returns An async generator yielding the encoded body.
+   */
+  async *encode(): AsyncGenerator<Uint8Array> {
+    for (const [name, value] of Object.entries(this.data)) {
+      yield this.encoder.encode(
+        `--${this._boundary}\r\n` +
+        `Content-Disposition: form-data; name="${this.escape(name)}"\r\n\r\n` +
+        `${value}\r\n`
+      );
+    }
+
+    for (const [name, file] of Object.entries(this.files)) {
+      yield this.encoder.encode(
+        `--${this._boundary}\r\n` +
+        `Content-Disposition: form-data; name="${this.escape(name)}"; ` +
+        `filename="${this.escape(file.filename)}"\r\n` +
+        `Content-Type: ${file.contentType}\r\n\r\n`
+      );
+
+      const stream = file.blob ? file.blob.stream() : file.stream;
+      if (stream) {
+        yield* new StreamChunker(stream, file.chunkSize, []).chunks();
+      }
+
+      yield this.encoder.encode('\r\n');
+    }
+
+    yield this.encoder.encode(`--${this._boundary}--\r\n`);
+  }
+
+  /**
+   * Expose the encoded body as a pull-based `ReadableStream`.
+   *
+   * @returns A `ReadableStream` that encodes the body on demand.
+   */
+  stream(): ReadableStream<Uint8Array> {
+    const iterator = this.encode();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel() {
+        await iterator.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Escape a field name or filename for use in a quoted header value.
+   *
+   * @param value - Raw header parameter value.
+   * @returns The escaped value.
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/\r/g, '%0D')
+      .replace(/\n/g, '%0A')
+      .replace(/"/g, '%22');
+  }
+}
+
+/**
+ * Read the contents of a multipart file into memory.
+ *
+ * Used where a body cannot be streamed, such as in environments without
+ * streamed request bodies, or to hash an upload.
+ *
+ * @param file - The multipart file.
+ * @returns The file contents.
+ */
+export async function readMultipartFile(file: MultipartFile): Promise<Uint8Array> {
+  if (file.blob) {
+    return new Uint8Array(await file.blob.arrayBuffer());
+  }
+  if (!file.stream) {
+    return new Uint8Array(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of new StreamChunker(file.stream, file.chunkSize, []).chunks()) {
+    chunks.push(chunk);
+  }
+
+  const contents = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    contents.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return contents;
+}
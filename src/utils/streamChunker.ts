@@ -9,15 +9,17 @@
 //   Splits incoming data from Node.js or browser-readable streams into
 //   fixed-size chunks and forwards them to a collector. The collector
 //   can be either a writable stream (Node.js or browser) or an in-memory
-//   array of Uint8Array buffers. This ensures consistent handling of
-//   binary data across environments and simplifies downstream processing.
+//   array of Uint8Array buffers, or pulled lazily through an async
+//   iterator. This ensures consistent handling of binary data across
+//   environments and simplifies downstream processing.
 
 import type { BrowserWritableStream } from "../io/protocols.ts";
 
 /**
  * Utility class for splitting readable streams into fixed-size chunks.
  * Supports both Node.js streams and browser-native streams, and can
- * deliver chunks either to a writable stream or to an in-memory array.
+ * deliver chunks either to a writable stream, to an in-memory array,
+ * or lazily through an async iterator.
  *
  * Designed for internal use within Vertopal to normalize stream handling
  * across environments.
@@ -58,25 +60,38 @@ export class StreamChunker {
    * @returns The collector containing written chunks or accumulated buffers.
    */
   async process(): Promise<(BrowserWritableStream | NodeJS.WritableStream) | Uint8Array[]> {
-    if (this.isNodeReadable) {
-      await this.processNodeStream();
-    } else {
-      await this.processBrowserStream();
+    for await (const chunk of this.chunks()) {
+      this.emit(chunk);
     }
 
     return this.collector;
   }
 
   /**
-   * Process a Node.js readable stream.
+   * Iterate over the input stream in fixed-size chunks.
+   *
+   * Chunks are produced lazily as the consumer pulls them, so only a
+   * single chunk (plus any partial remainder) is held in memory at a time.
+   *
+   * @returns An async generator yielding chunks of at most `chunkSize` bytes.
+   */
+  async *chunks(): AsyncGenerator<Uint8Array> {
+    if (this.isNodeReadable) {
+      yield* this.nodeStreamChunks();
+    } else {
+      yield* this.browserStreamChunks();
+    }
+  }
+
+  /**
+   * Iterate over a Node.js readable stream.
+   *
+   * Buffers incoming data until the chunk size is reached, then yields
+   * slices of that size. Remaining data is yielded at the end.
    *
-   * Buffers incoming data until the chunk size is reached, then emits
-   * slices to the collector. Remaining data is emitted at the end.
-   * 
-   * @returns A promise that resolves when stream processing completes
-   *          in a Node.js environment.
+   * @returns An async generator yielding chunks from a Node.js stream.
    */
-  private async processNodeStream(): Promise<void> {
+  private async *nodeStreamChunks(): AsyncGenerator<Uint8Array> {
     let buffer: Buffer = Buffer.alloc(0);
 
     for await (const chunk of this.stream) {
@@ -85,55 +100,59 @@ export class StreamChunker {
 
       while (buffer.length >= this.chunkSize) {
         const slice = buffer.subarray(0, this.chunkSize);
-        this.emit(slice);
+        yield slice;
         buffer = buffer.subarray(this.chunkSize);
       }
     }
 
     if (buffer.length > 0) {
-      this.emit(buffer);
+      yield buffer;
     }
   }
 
   /**
-   * Process a browser-native readable stream.
+   * Iterate over a browser-native readable stream.
    *
    * Uses a stream reader to consume chunks, merges them into a buffer,
-   * and emits slices of the specified chunk size. Remaining data is
-   * emitted at the end.
-   * 
-   * @returns A promise that resolves when stream processing completes
-   *          in a browser environment.
+   * and yields slices of the specified chunk size. Remaining data is
+   * yielded at the end. The reader lock is released if the consumer
+   * stops iterating early.
+   *
+   * @returns An async generator yielding chunks from a browser stream.
    */
-  private async processBrowserStream(): Promise<void> {
+  private async *browserStreamChunks(): AsyncGenerator<Uint8Array> {
     let buffer: Uint8Array = new Uint8Array(0);
     const reader = this.stream.getReader();
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const incoming =
-        typeof value === 'string'
-          ? new TextEncoder().encode(value)
-          : value instanceof Uint8Array
-            ? value
-            : new Uint8Array(value as ArrayBuffer);
-
-      const merged = new Uint8Array(buffer.length + incoming.length);
-      merged.set(buffer);
-      merged.set(incoming, buffer.length);
-      buffer = merged;
-
-      while (buffer.length >= this.chunkSize) {
-        const slice = buffer.slice(0, this.chunkSize);
-        this.emit(slice);
-        buffer = buffer.slice(this.chunkSize);
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const incoming =
+          typeof value === 'string'
+            ? new TextEncoder().encode(value)
+            : value instanceof Uint8Array
+              ? value
+              : new Uint8Array(value as ArrayBuffer);
+
+        const merged = new Uint8Array(buffer.length + incoming.length);
+        merged.set(buffer);
+        merged.set(incoming, buffer.length);
+        buffer = merged;
+
+        while (buffer.length >= this.chunkSize) {
+          const slice = buffer.slice(0, this.chunkSize);
+          yield slice;
+          buffer = buffer.slice(this.chunkSize);
+        }
       }
-    }
 
-    if (buffer.length > 0) {
-      this.emit(buffer);
+      if (buffer.length > 0) {
+        yield buffer;
+      }
+    } finally {
+      reader.releaseLock();
     }
   }
 
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for AbortSignal cancellation.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'events';
+import { API, Converter } from '../lib/index.js';
+import { ConversionAbortedError } from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+describe('AbortSignal cancellation', () => {
+  let server;
+  before(async () => { server = await startServer(); });
+  beforeEach(() => {
+    server.reset();
+    server.latency = 0;
+  });
+  after(() => server.stop());
+
+  it('leaves no listeners on a signal reused across requests', async () => {
+    const api = new API();
+    const controller = new AbortController();
+    for (let i = 0; i < 15; i++) {
+      await api.formatGet('pdf', { signal: controller.signal });
+    }
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+  });
+
+  it('rejects requests with an already aborted signal', async () => {
+    await assert.rejects(
+      new API().formatGet('pdf', { signal: AbortSignal.abort() }),
+      ConversionAbortedError
+    );
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('cancels a request in flight', async () => {
+    server.latency = 2000;
+    const started = Date.now();
+    await assert.rejects(
+      new API().formatGet('pdf', { signal: AbortSignal.timeout(50) }),
+      ConversionAbortedError
+    );
+    assert.ok(Date.now() - started < 1500);
+  });
+
+  it('cancels a conversion while it waits between polls', async () => {
+    const controller = new AbortController();
+    server.script({ polls: 5 });
+    const conversion = await new Converter().convert(
+      new MemoryInput('a.docx', 'hello'),
+      new MemoryOutput(),
+      'pdf',
+      undefined,
+      { signal: controller.signal }
+    );
+
+    const waiting = conversion.wait([60]);
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(waiting, ConversionAbortedError);
+  });
+});
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the vCredit budget guard.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Converter, CreditBudget } from '../lib/index.js';
+import { CreditBudgetExceededError } from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+describe('CreditBudget', () => {
+  it('enforces the per-job and per-instance caps', () => {
+    const budget = new CreditBudget({ perJob: 5, perInstance: 10 });
+    assert.throws(() => budget.reserve(6), CreditBudgetExceededError);
+
+    const first = budget.reserve(5);
+    budget.reserve(4);
+    assert.throws(() => budget.reserve(2), /per-instance cap of 10/);
+
+    budget.release(first);
+    budget.record('t-1', 3);
+    budget.record('t-1', 3);
+    assert.deepEqual(budget.status(), { spent: 3, spentInWindow: 3, reserved: 4, remaining: 7 });
+  });
+
+  it('rolls spend out of the window but keeps the total', async () => {
+    const budget = new CreditBudget({ daily: 5, perInstance: 100, window: 30 });
+    budget.record('t-1', 5);
+    assert.throws(() => budget.reserve(), /daily cap of 5/);
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+    budget.record('t-2', 1);
+    assert.deepEqual(budget.status(), { spent: 6, spentInWindow: 1, reserved: 0, remaining: 4 });
+    budget.reserve(4);
+  });
+
+  it('reports a low budget once until it recovers', async t => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    new CreditBudget({ perInstance: 10 }).record('t-1', 10);
+    assert.equal(warn.mock.callCount(), 0);
+
+    const reports = [];
+    const budget = new CreditBudget({ daily: 10, window: 30, warnAt: 0.2, onLowBudget: status => reports.push(status.remaining) });
+    budget.record('t-1', 8);
+    budget.record('t-2', 1);
+    assert.deepEqual(reports, [2]);
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+    budget.record('t-3', 1);
+    budget.record('t-4', 8);
+    assert.deepEqual(reports, [2, 1]);
+  });
+
+  it('rejects invalid options', () => {
+    assert.throws(() => new CreditBudget({ perJob: -1 }), /non-negative/);
+    assert.throws(() => new CreditBudget({ window: 0 }), /positive/);
+    assert.throws(() => new CreditBudget({ warnAt: 2 }), /between 0 and 1/);
+  });
+});
+
+describe('Converter budgets', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ graphs: { 'docx>png': { graph: ['docx', 'pdf', 'png'], vcredits: 4 } } });
+  });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('records the spend reported by the service', async () => {
+    const budget = new CreditBudget({ perInstance: 5 });
+    server.script({ vcredits: 2 });
+    const conversion = await new Converter(undefined, { budget }).convert(
+      new MemoryInput('a.docx', 'x'), new MemoryOutput(), 'pdf'
+    );
+    await conversion.wait([0]);
+
+    assert.deepEqual(budget.status(), { spent: 2, spentInWindow: 2, reserved: 0, remaining: 3 });
+  });
+
+  it('refuses conversions estimated over the remaining budget before uploading', async () => {
+    const budget = new CreditBudget({ perInstance: 3 });
+    await assert.rejects(
+      new Converter(undefined, { budget }).convert(new MemoryInput('a.docx', 'x'), new MemoryOutput(), 'png'),
+      CreditBudgetExceededError
+    );
+    assert.deepEqual(endpoints(server), ['/convert/graph']);
+  });
+});
@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the conversion callback receiver.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, request } from 'http';
+import { CallbackReceiver, Converter } from '../lib/index.js';
+import { InvalidJSONResponseError } from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+/**
+ * Build a callback payload for a task.
+ */
+function payload(id, status = 'completed', conversion = 'successful') {
+  const output = { entity: { id, status, vcredits: 1 } };
+  if (status === 'completed') {
+    output.result = { output: { status: conversion } };
+  }
+  return { result: { output } };
+}
+
+/**
+ * Serve a receiver's handler on a local port.
+ */
+async function serve(receiver) {
+  const server = createServer(receiver.handler());
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${server.address().port}/callback` };
+}
+
+/**
+ * Post a body to a URL and return the response status.
+ */
+async function post(url, body) {
+  const response = await fetch(url, { method: 'POST', body });
+  return response.status;
+}
+
+describe('CallbackReceiver', () => {
+  it('resolves waiters only for completed tasks', async () => {
+    const receiver = new CallbackReceiver();
+    let resolved = false;
+    const waiting = receiver.waitFor('t-1').then(output => { resolved = true; return output; });
+
+    receiver.receive(payload('t-1', 'running'));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(resolved, false);
+
+    receiver.receive(JSON.stringify(payload('t-1')));
+    assert.equal((await waiting).entity.status, 'completed');
+  });
+
+  it('expires and evicts unclaimed callbacks', async () => {
+    const expiring = new CallbackReceiver({ ttl: 0 });
+    expiring.receive(payload('t-1'));
+    const controller = new AbortController();
+    const waiting = expiring.waitFor('t-1', controller.signal);
+    controller.abort();
+    await assert.rejects(waiting);
+
+    const bounded = new CallbackReceiver({ maxEntries: 2 });
+    ['t-1', 't-2', 't-3'].forEach(id => bounded.receive(payload(id)));
+    assert.equal((await bounded.waitFor('t-3')).entity.id, 't-3');
+    assert.equal((await bounded.waitFor('t-2')).entity.id, 't-2');
+    const evicted = new AbortController();
+    const missing = bounded.waitFor('t-1', evicted.signal);
+    evicted.abort();
+    await assert.rejects(missing);
+  });
+
+  it('rejects invalid payloads', () => {
+    assert.throws(() => new CallbackReceiver().receive('{'), InvalidJSONResponseError);
+    assert.throws(() => new CallbackReceiver().receive({ result: {} }), InvalidJSONResponseError);
+  });
+});
+
+describe('CallbackReceiver.handler', () => {
+  let served;
+  let receiver;
+
+  before(async () => {
+    receiver = new CallbackReceiver();
+    served = await serve(receiver);
+  });
+  after(() => new Promise(resolve => served.server.close(resolve)));
+
+  it('answers 204, 400 and 500 without rejecting', async () => {
+    assert.equal(await post(served.url, JSON.stringify(payload('t-9'))), 204);
+    assert.equal(await post(served.url, 'not json'), 400);
+
+    const failing = new CallbackReceiver();
+    failing.receive = () => { throw new Error('store is down'); };
+    const { server, url } = await serve(failing);
+    try {
+      assert.equal(await post(url, '{}'), 500);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('answers 413 to bodies over the size limit', async () => {
+    const { server, url } = await serve(new CallbackReceiver({ maxBodySize: 200 }));
+    try {
+      assert.equal(await post(url, 'x'.repeat(201)), 413);
+
+      // A streamed body has no length to check up front.
+      const status = await new Promise((resolve, reject) => {
+        const req = request(url, { method: 'POST' });
+        req.on('response', response => { response.resume(); resolve(response.statusCode); });
+        req.on('error', reject);
+        req.write('x'.repeat(300));
+      });
+      assert.equal(status, 413);
+      assert.equal(await post(url, JSON.stringify(payload('t-11'))), 204);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('survives clients that disconnect mid-body', async () => {
+    const rejections = [];
+    const onRejection = reason => rejections.push(reason);
+    process.on('unhandledRejection', onRejection);
+    try {
+      await new Promise(resolve => {
+        const req = request(served.url, {
+          method: 'POST',
+          headers: { 'Content-Length': 1000 },
+        });
+        req.on('error', () => resolve());
+        req.write('{"result":', () => setTimeout(() => { req.destroy(); resolve(); }, 20));
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      assert.deepEqual(rejections, []);
+      assert.equal(await post(served.url, JSON.stringify(payload('t-10'))), 204);
+    } finally {
+      process.off('unhandledRejection', onRejection);
+    }
+  });
+});
+
+describe('Conversion.waitForCallback', () => {
+  let server;
+  let served;
+  let receiver;
+
+  before(async () => {
+    server = await startServer();
+    receiver = new CallbackReceiver();
+    served = await serve(receiver);
+  });
+  after(async () => {
+    await server.stop();
+    await new Promise(resolve => served.server.close(resolve));
+  });
+  beforeEach(() => server.reset());
+
+  it('completes once the service calls back', async () => {
+    server.script({ polls: 100 });
+    const conversion = await new Converter().convert(
+      new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'pdf', undefined,
+      { callback: served.url }
+    );
+
+    await conversion.waitForCallback(receiver);
+    assert.ok(conversion.successful());
+  });
+
+  it('reads the task status from the API instead of the payload', async () => {
+    server.script({ polls: 0 });
+    let connector;
+    const converter = new Converter(undefined, {
+      interceptors: [{
+        onResponse(data, context) {
+          if (context.endpoint === '/convert/file') connector = data.entity.id;
+        },
+      }],
+    });
+    const conversion = await converter.convert(
+      new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'pdf', undefined,
+      { callback: 'http://127.0.0.1:9/unused' }
+    );
+
+    receiver.receive(payload(connector, 'completed', 'failed'));
+    await conversion.waitForCallback(receiver);
+    assert.ok(conversion.successful());
+  });
+});
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for recording and replaying API traffic.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Config, Converter } from '../lib/index.js';
+import { APIException } from '../lib/entry/exceptions.js';
+import { Cassette } from '../lib/entry/testing.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+/**
+ * Convert a text file to pdf and download the result.
+ */
+async function convert(transport, contents = 'hello') {
+  const output = new MemoryOutput();
+  const conversion = await new Converter(undefined, { transport }).convert(
+    new MemoryInput('a.txt', contents), output, 'pdf'
+  );
+  await conversion.wait([0]);
+  await conversion.download();
+  return output.text();
+}
+
+describe('Cassette', () => {
+  let server;
+  let directory;
+
+  before(async () => {
+    server = await startServer();
+    directory = await mkdtemp(join(tmpdir(), 'vertopal-cassette-'));
+  });
+  after(async () => {
+    await server.stop();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('records without credentials and replays with other ones', async () => {
+    const path = join(directory, 'convert.json');
+    const recording = new Cassette(path);
+    server.script({ output: 'recorded pdf' });
+    assert.equal(await convert(recording.record()), 'recorded pdf');
+    await recording.save();
+
+    const fixture = await readFile(path, 'utf8');
+    assert.ok(!fixture.includes('test-token'));
+    assert.ok(!fixture.includes('test-app'));
+
+    await server.stop();
+    try {
+      Config.update({ api: { app: 'other-app', token: 'other-token' } });
+      const replay = (await Cassette.load(path)).replay();
+      assert.equal(await convert(replay), 'recorded pdf');
+      assert.equal(replay.remaining, 0);
+    } finally {
+      server = await startServer();
+    }
+  });
+
+  it('rejects requests that were not recorded', async () => {
+    const cassette = new Cassette(join(directory, 'unused.json'));
+    await convert(cassette.record(), 'original');
+
+    await assert.rejects(
+      convert(cassette.replay(), 'changed'),
+      error => error instanceof APIException && error.endpoint === '/upload/file'
+    );
+  });
+});
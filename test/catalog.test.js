@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the cached format catalog.
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormatCatalog } from '../lib/index.js';
+import { ConversionAbortedError, InternalServerError } from '../lib/entry/exceptions.js';
+import { endpoints, startServer } from './helpers.js';
+
+describe('FormatCatalog', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+  afterEach(() => { server.latency = 0; });
+
+  it('caches lookups and shares concurrent requests', async () => {
+    const catalog = new FormatCatalog();
+    const [first, second] = await Promise.all([
+      catalog.outputsFor('docx'),
+      catalog.outputsFor('DOCX'),
+    ]);
+
+    assert.deepEqual(first, ['pdf', 'txt', 'png', 'html']);
+    assert.equal(second, first);
+    assert.ok(await catalog.canConvert('docx', 'pdf'));
+    assert.ok(!(await catalog.canConvert('docx', 'mp4')));
+    assert.deepEqual(endpoints(server), ['/convert/formats']);
+  });
+
+  it('does not fail a lookup when another caller aborts', async () => {
+    server.latency = 100;
+    const catalog = new FormatCatalog();
+    const controller = new AbortController();
+
+    const aborted = catalog.outputsFor('pdf', { signal: controller.signal });
+    const unaffected = catalog.outputsFor('pdf');
+    controller.abort();
+
+    await assert.rejects(aborted, ConversionAbortedError);
+    assert.deepEqual(await unaffected, ['docx', 'png', 'txt', 'jpg']);
+    assert.deepEqual(await catalog.outputsFor('pdf', { signal: controller.signal }), await unaffected);
+  });
+
+  it('keeps the cached lookups when a crawl fails', async () => {
+    const catalog = new FormatCatalog();
+    await catalog.outputsFor('gif');
+    server.injectError('/convert/formats', 'INTERNAL_SERVER_ERROR', { times: 10 });
+
+    await assert.rejects(catalog.crawl(), InternalServerError);
+    const snapshot = catalog.exportSnapshot();
+    assert.deepEqual(snapshot.outputs, { gif: ['apng', 'png', 'mp4'] });
+  });
+
+  it('replaces the cached lookups after a crawl', async () => {
+    const catalog = new FormatCatalog(undefined, {
+      snapshot: { version: 1, createdAt: '', outputs: { bmp: ['png'] }, formats: {}, graphs: {} },
+    });
+
+    const matrix = await catalog.crawl();
+    assert.deepEqual(Object.keys(matrix), ['docx', 'pdf', 'png', 'jpg', 'gif', 'txt', 'mp4']);
+
+    const snapshot = catalog.exportSnapshot();
+    assert.equal(snapshot.outputs.bmp, undefined);
+    assert.deepEqual(snapshot.outputs.txt, ['pdf', 'docx']);
+    assert.equal(snapshot.inputs.length, 7);
+
+    const requests = server.requests.length;
+    const offline = new FormatCatalog(undefined, { snapshot: JSON.parse(JSON.stringify(snapshot)) });
+    assert.deepEqual(await offline.outputsFor('mp4'), ['gif', 'mp3', 'webm']);
+    assert.equal(server.requests.length, requests);
+  });
+});
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for structured exceptions.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API } from '../lib/index.js';
+import {
+  APIException,
+  AuthenticationError,
+  ExceptionHandler,
+  InsufficentVCreditsError,
+  InternalServerError,
+  InvalidOutputFormatError,
+  MissingAuthorizationHeaderError,
+  NetworkConnectionError,
+  NotFoundError,
+  QuotaError
+} from '../lib/entry/exceptions.js';
+import { ERROR_CODE_MAP } from '../lib/utils/exceptionHandler.js';
+import { startServer } from './helpers.js';
+
+describe('Structured exceptions', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+
+  it('carry the details of the failed request', async () => {
+    server.injectError('/format/get', 'NOT_FOUND', { message: 'No such format.' });
+
+    const error = await new API().formatGet('pdf').catch(caught => caught);
+    assert.ok(error instanceof NotFoundError);
+    assert.equal(error.message, '[NOT_FOUND] No such format.');
+    assert.equal(error.code, 'NOT_FOUND');
+    assert.equal(error.endpoint, '/format/get');
+    assert.equal(error.attempt, 1);
+    assert.equal(typeof error.httpStatus, 'number');
+    assert.equal(error.response.error.code, 'NOT_FOUND');
+  });
+
+  it('round-trip through JSON with their class and cause', () => {
+    const error = new NetworkConnectionError('All 3 retries failed!', {
+      endpoint: '/upload/file',
+      attempt: 3,
+      cause: new NotFoundError('[NOT_FOUND] Gone.', { code: 'NOT_FOUND', warnings: [{ a: 'b' }] }),
+    });
+
+    const restored = ExceptionHandler.fromJSON(JSON.parse(JSON.stringify(error)));
+    assert.ok(restored instanceof NetworkConnectionError);
+    assert.equal(restored.name, 'NetworkConnectionError');
+    assert.equal(restored.message, error.message);
+    assert.equal(restored.endpoint, '/upload/file');
+    assert.equal(restored.attempt, 3);
+    assert.equal(restored.stack, error.stack);
+    assert.ok(restored.cause instanceof NotFoundError);
+    assert.deepEqual(restored.cause.warnings, [{ a: 'b' }]);
+  });
+
+  it('rehydrate unknown names as APIException and plain causes as Error', () => {
+    const restored = ExceptionHandler.fromJSON({
+      name: 'SomethingElse',
+      message: 'Unknown.',
+      cause: { name: 'TypeError', message: 'fetch failed' },
+    });
+
+    assert.equal(restored.constructor, APIException);
+    assert.equal(restored.name, 'SomethingElse');
+    assert.ok(restored.cause instanceof Error);
+    assert.equal(restored.cause.message, 'fetch failed');
+  });
+});
+
+describe('Exception categories', () => {
+  it('are inherited from the category classes', () => {
+    assert.ok(new InsufficentVCreditsError() instanceof QuotaError);
+    assert.ok(new MissingAuthorizationHeaderError() instanceof AuthenticationError);
+    assert.equal(new InsufficentVCreditsError().category, 'quota');
+    assert.equal(new InvalidOutputFormatError().category, 'format');
+    assert.equal(new NetworkConnectionError().category, 'network');
+    assert.equal(new APIException().category, 'unknown');
+  });
+
+  it('tell retryable errors from user-fixable ones', () => {
+    assert.ok(APIException.isRetryable(new InternalServerError()));
+    assert.ok(APIException.isRetryable(new NetworkConnectionError()));
+    assert.ok(!APIException.isRetryable(new InsufficentVCreditsError()));
+    assert.ok(!APIException.isRetryable(new Error('plain')));
+
+    assert.ok(APIException.isUserFixable(new InsufficentVCreditsError()));
+    assert.ok(APIException.isUserFixable(new InvalidOutputFormatError()));
+    assert.ok(!APIException.isUserFixable(new InternalServerError()));
+  });
+
+  it('accept custom error code mappings', () => {
+    class ShinyNewError extends QuotaError {}
+    ExceptionHandler.registerErrorCode('SHINY_NEW', ShinyNewError);
+    try {
+      assert.throws(
+        () => ExceptionHandler.raiseForResponse({ error: { code: 'SHINY_NEW', message: 'New.' } }),
+        error => error instanceof ShinyNewError && error.category === 'quota'
+      );
+      assert.throws(() => ExceptionHandler.registerErrorCode('BAD', Error), /must extend/);
+    } finally {
+      delete ERROR_CODE_MAP.SHINY_NEW;
+    }
+  });
+});
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Shared helpers for the test suite: a mock API server wired into the
+//   library configuration, and in-memory inputs and outputs.
+
+import { Readable as NodeReadable } from 'stream';
+import { Config } from '../lib/index.js';
+import { MockVertopalServer } from '../lib/entry/testing.js';
+
+/**
+ * Start a mock server and point the library at it.
+ *
+ * Retries back off for a millisecond, so failure tests run quickly.
+ *
+ * @param options - Optional mock server options.
+ * @returns The running server.
+ */
+export async function startServer(options = {}) {
+  const server = new MockVertopalServer(options);
+  Config.update({
+    api: { endpoint: await server.start(), app: 'test-app', token: 'test-token' },
+    connectionSettings: { retryBaseDelay: 1, retryMaxDelay: 5 },
+  });
+  return server;
+}
+
+/**
+ * List the endpoints a server received, in order.
+ *
+ * @param server - The mock server.
+ * @param from - Optional index of the first request to list.
+ * @returns The endpoint paths.
+ */
+export function endpoints(server, from = 0) {
+  return server.requests.slice(from).map(request => request.endpoint);
+}
+
+/**
+ * Readable input held in memory. Each `open()` returns a new stream,
+ * as with `FileInput`.
+ */
+export class MemoryInput {
+  constructor(filename, contents) {
+    this.filename = filename;
+    this.bytes = typeof contents === 'string' ? Buffer.from(contents) : Buffer.from(contents);
+    this.opened = 0;
+  }
+
+  async open() {
+    this.opened++;
+    return NodeReadable.from([this.bytes]);
+  }
+
+  async size() {
+    return this.bytes.length;
+  }
+
+  async exists() {
+    return true;
+  }
+}
+
+/**
+ * Writable output collecting chunks in memory.
+ */
+export class MemoryOutput {
+  constructor() {
+    this.chunks = [];
+  }
+
+  async open() {
+    return { write: chunk => this.chunks.push(chunk) };
+  }
+
+  text() {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for request and response interceptors.
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API, Config } from '../lib/index.js';
+import { InternalServerError, NotFoundError } from '../lib/entry/exceptions.js';
+import { startServer } from './helpers.js';
+
+describe('Interceptors', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+  afterEach(() => Config.update({ hooks: { interceptors: [] } }));
+
+  it('runs global hooks before client hooks, awaiting async ones', async () => {
+    const calls = [];
+    Config.update({
+      hooks: {
+        interceptors: [{
+          async onRequest(request) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            calls.push('global');
+            request.headers['X-Tenant'] = 'acme';
+          },
+        }],
+      },
+    });
+
+    let seen;
+    const client = new API().use({
+      onRequest(request, context) {
+        calls.push('client');
+        seen = { tenant: request.headers['X-Tenant'], ...context };
+        return { ...request, headers: { ...request.headers, 'X-Correlation-Id': 'abc' } };
+      },
+    });
+    await client.formatGet('pdf');
+
+    assert.deepEqual(calls, ['global', 'client']);
+    assert.deepEqual(seen, { tenant: 'acme', endpoint: '/format/get', method: 'POST', attempt: 1 });
+  });
+
+  it('lets onResponse replace the parsed body before errors are raised', async () => {
+    const statuses = [];
+    const client = new API(undefined, {
+      interceptors: [{
+        onResponse(data, { response }) {
+          statuses.push(response.status);
+          return { ...data, error: { code: 'NOT_FOUND', message: 'Replaced.' } };
+        },
+      }],
+    });
+
+    await assert.rejects(client.formatGet('pdf'), NotFoundError);
+    assert.deepEqual(statuses, [200]);
+  });
+
+  it('lets onError replace failures and reports each attempt', async () => {
+    server.injectError('/format/get', 'INTERNAL_SERVER_ERROR', { times: 1 });
+    const attempts = [];
+    const client = new API().use({
+      onError(error, { attempt }) {
+        attempts.push(attempt);
+        assert.ok(error instanceof InternalServerError);
+      },
+    });
+
+    const response = await client.formatGet('pdf');
+    assert.equal(response.result.output.name, 'pdf');
+    assert.deepEqual(attempts, [1]);
+
+    const replaced = new Error('Replaced.');
+    server.injectError('/format/get', 'INTERNAL_SERVER_ERROR', { times: 1 });
+    await assert.rejects(new API().use({ onError: () => replaced }).formatGet('pdf'), replaced);
+  });
+});
@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the usage ledger, its stores and CSV export, and how
+//   conversions are recorded in it.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Converter, JsonlUsageStore, MemoryUsageStore, UsageLedger } from '../lib/index.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+/**
+ * Build a usage record with default values.
+ */
+function usage(overrides = {}) {
+  return {
+    timestamp: '2025-01-31T10:00:00.000Z',
+    outputFormat: 'pdf',
+    duration: 10,
+    status: 'successful',
+    ...overrides,
+  };
+}
+
+/**
+ * Usage store failing the first `failures` appends.
+ */
+class FlakyStore extends MemoryUsageStore {
+  constructor(failures) {
+    super();
+    this.failures = failures;
+  }
+
+  async append(record) {
+    if (this.failures-- > 0) {
+      throw new Error('disk full');
+    }
+    await super.append(record);
+  }
+}
+
+describe('UsageLedger', () => {
+  it('summarizes records by day, tag and format pair', async () => {
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    await ledger.record(usage({ tag: 'a', inputFormat: 'docx', vcredits: 2, inputSize: 5 }));
+    await ledger.record(usage({ tag: 'b', inputFormat: 'docx', vcredits: 1, status: 'failed' }));
+    await ledger.record(usage({ timestamp: '2025-02-01T00:00:00.000Z', tag: 'a', inputFormat: 'png', vcredits: 3 }));
+
+    assert.deepEqual((await ledger.summarize('day')).map(s => [s.key, s.conversions, s.vcredits]), [
+      ['2025-01-31', 2, 3],
+      ['2025-02-01', 1, 3],
+    ]);
+    assert.deepEqual((await ledger.summarize('tag')).map(s => [s.key, s.successful, s.failed]), [
+      ['a', 2, 0],
+      ['b', 0, 1],
+    ]);
+    assert.deepEqual((await ledger.summarize('pair', { from: '2025-02-01' })).map(s => s.key), ['png>pdf']);
+  });
+
+  it('rejects invalid records and skips invalid stored entries', async () => {
+    const store = new MemoryUsageStore();
+    const ledger = new UsageLedger(store);
+    await assert.rejects(ledger.record(usage({ timestamp: 'yesterday' })), /valid timestamp/);
+    await assert.rejects(ledger.record(usage({ duration: undefined })), /valid timestamp/);
+
+    await store.append(usage({ timestamp: 'yesterday' }));
+    await store.append(usage());
+    assert.equal((await ledger.query()).length, 1);
+    assert.deepEqual((await ledger.summarize('day')).map(s => s.key), ['2025-01-31']);
+  });
+
+  it('escapes CSV cells and neutralizes formulas', async () => {
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    await ledger.record(usage({ tag: '=HYPERLINK("x")' }));
+    await ledger.record(usage({ tag: '-1+1', errorCode: '@SUM' }));
+    await ledger.record(usage({ tag: '\tteam' }));
+
+    const rows = (await ledger.exportCSV()).split('\r\n');
+    assert.equal(rows[0], 'timestamp,taskId,tag,inputFormat,outputFormat,inputSize,outputSize,duration,vcredits,status,errorCode');
+    assert.equal(rows[1], '2025-01-31T10:00:00.000Z,,"\'=HYPERLINK(""x"")",,pdf,,,10,,successful,');
+    assert.equal(rows[2], "2025-01-31T10:00:00.000Z,,'-1+1,,pdf,,,10,,successful,'@SUM");
+    assert.equal(rows[3], "2025-01-31T10:00:00.000Z,,'\tteam,,pdf,,,10,,successful,");
+    assert.equal(rows[4], '');
+
+    const summary = (await ledger.exportCSV('tag')).split('\r\n');
+    assert.equal(summary[1], "'\tteam,1,1,0,0,0,0,10");
+  });
+
+  it('reports failed appends to the error handler', async () => {
+    const errors = [];
+    const ledger = new UsageLedger(new FlakyStore(1), { onError: (error, record) => errors.push([error.message, record.tag]) });
+
+    assert.equal(await ledger.tryRecord(usage({ tag: 'a' })), false);
+    assert.equal(await ledger.tryRecord(usage({ tag: 'b' })), true);
+    assert.deepEqual(errors, [['disk full', 'a']]);
+    assert.deepEqual((await ledger.query()).map(record => record.tag), ['b']);
+
+    const throwing = new UsageLedger(new FlakyStore(1), { onError: () => { throw new Error('handler'); } });
+    assert.equal(await throwing.tryRecord(usage()), false);
+  });
+});
+
+describe('JsonlUsageStore', () => {
+  let dir;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vertopal-ledger-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('appends JSON lines and skips incomplete ones', async () => {
+    const path = join(dir, 'usage.jsonl');
+    const store = new JsonlUsageStore(path);
+    assert.deepEqual(await store.read(), []);
+
+    await store.append(usage({ tag: 'a' }));
+    await writeFile(path, '{"timestamp":', { flag: 'a' });
+    assert.deepEqual((await new UsageLedger(store).query()).map(record => record.tag), ['a']);
+  });
+});
+
+describe('Converter ledger', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('records completed conversions with their tag', async () => {
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    server.script({ vcredits: 2 });
+    const conversion = await new Converter(undefined, { ledger }).convert(
+      new MemoryInput('a.docx', 'xyz'), new MemoryOutput(), 'pdf', undefined, { tag: 'team' }
+    );
+    await conversion.wait([0]);
+
+    const [record] = await ledger.query();
+    assert.equal(record.tag, 'team');
+    assert.equal(record.inputFormat, 'docx');
+    assert.equal(record.inputSize, 3);
+    assert.equal(record.vcredits, 2);
+    assert.equal(record.status, 'successful');
+    assert.equal(conversion.toJSON().recorded, true);
+  });
+
+  it('does not fail a conversion when the ledger fails', async () => {
+    const errors = [];
+    const ledger = new UsageLedger(new FlakyStore(1), { onError: error => errors.push(error.message) });
+    const converter = new Converter(undefined, { ledger });
+    const conversion = await converter.convert(new MemoryInput('a.docx', 'x'), new MemoryOutput(), 'pdf');
+    await conversion.wait([0]);
+
+    assert.equal(conversion.successful(), true);
+    assert.deepEqual(errors, ['disk full']);
+    assert.equal(conversion.toJSON().recorded, false);
+
+    const resumed = converter.resume(conversion.toJSON(), new MemoryOutput());
+    await resumed.wait([0]);
+    assert.equal((await ledger.query()).length, 1);
+    assert.equal(resumed.toJSON().recorded, true);
+  });
+
+  it('reports ledger failures of conversions that fail to start', async () => {
+    const errors = [];
+    const ledger = new UsageLedger(new FlakyStore(1), { onError: (error, record) => errors.push(record.errorCode) });
+    server.injectError('/convert/file', 'INSUFFICIENT_VCREDITS', { httpStatus: 200 });
+
+    await assert.rejects(
+      new Converter(undefined, { ledger }).convert(new MemoryInput('a.docx', 'x'), new MemoryOutput(), 'pdf'),
+      { code: 'INSUFFICIENT_VCREDITS' }
+    );
+    assert.deepEqual(errors, ['INSUFFICIENT_VCREDITS']);
+  });
+});
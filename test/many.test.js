@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for converting one upload to several output formats.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Converter, CreditBudget } from '../lib/index.js';
+import {
+  ConversionBatchError,
+  CreditBudgetExceededError,
+  InvalidOutputFormatError
+} from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+/**
+ * Count the requests a server received for an endpoint.
+ */
+function count(server, endpoint) {
+  return endpoints(server).filter(path => path === endpoint).length;
+}
+
+describe('Converter.convertMany', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('uploads once and converts to every target', async () => {
+    const input = new MemoryInput('a.docx', 'xyz');
+    const outputs = [new MemoryOutput(), new MemoryOutput(), new MemoryOutput()];
+
+    const conversions = await new Converter().convertMany(input, [
+      { sink: outputs[0], format: 'pdf' },
+      { sink: outputs[1], format: 'png', parameters: { dpi: 300 } },
+      { sink: outputs[2], format: 'txt' },
+    ], undefined, { parameters: { quality: 90 } });
+
+    assert.equal(count(server, '/upload/file'), 1);
+    assert.deepEqual(
+      server.requests
+        .filter(request => request.endpoint === '/convert/file')
+        .map(request => [request.data.parameters.output, request.data.parameters.dpi ?? request.data.parameters.quality]),
+      [['pdf', 90], ['png', 300], ['txt', 90]]
+    );
+    assert.ok(conversions.every(conversion => conversion.successful()));
+
+    for (const [index, conversion] of conversions.entries()) {
+      await conversion.download();
+      assert.match(outputs[index].text(), new RegExp(`to ${['pdf', 'png', 'txt'][index]}\\.$`));
+    }
+  });
+
+  it('uploads again when the connector expires between conversions', async () => {
+    server.injectError('/convert/file', 'NO_CONNECTOR_DEPENDENT_TASK', { httpStatus: 200 });
+    const conversions = await new Converter().convertMany(new MemoryInput('a.docx', 'x'), [
+      { sink: new MemoryOutput(), format: 'pdf' },
+      { sink: new MemoryOutput(), format: 'txt' },
+    ]);
+
+    assert.equal(conversions.length, 2);
+    assert.equal(count(server, '/upload/file'), 2);
+    assert.ok(conversions.every(conversion => conversion.successful()));
+  });
+
+  it('checks every target before uploading', async () => {
+    await assert.rejects(
+      new Converter().convertMany(new MemoryInput('a.docx', 'x'), [
+        { sink: new MemoryOutput(), format: 'pdf' },
+        { sink: new MemoryOutput() },
+      ]),
+      InvalidOutputFormatError
+    );
+
+    const budget = new CreditBudget({ perInstance: 1 });
+    await assert.rejects(
+      new Converter(undefined, { budget }).convertMany(new MemoryInput('a.docx', 'x'), [
+        { sink: new MemoryOutput(), format: 'pdf' },
+        { sink: new MemoryOutput(), format: 'txt' },
+      ]),
+      CreditBudgetExceededError
+    );
+    assert.equal(count(server, '/upload/file'), 0);
+    assert.equal(budget.status().reserved, 0);
+  });
+
+  it('releases the reservations of targets that were not started', async () => {
+    const budget = new CreditBudget({ perInstance: 10 });
+    server.injectError('/convert/file', 'INSUFFICIENT_VCREDITS', { httpStatus: 200 });
+
+    await assert.rejects(
+      new Converter(undefined, { budget }).convertMany(new MemoryInput('a.docx', 'x'), [
+        { sink: new MemoryOutput(), format: 'pdf' },
+        { sink: new MemoryOutput(), format: 'txt' },
+      ]),
+      { code: 'INSUFFICIENT_VCREDITS' }
+    );
+    assert.equal(count(server, '/convert/file'), 1);
+    assert.equal(budget.status().reserved, 0);
+  });
+
+  it('keeps the conversions started before a target fails to start', async () => {
+    const output = new MemoryOutput();
+    const error = await new Converter().convertMany(new MemoryInput('a.docx', 'x'), [
+      { sink: output, format: 'pdf' },
+      { sink: new MemoryOutput(), format: 'mp4' },
+      { sink: new MemoryOutput(), format: 'txt' },
+    ]).catch(error => error);
+
+    assert.ok(error instanceof ConversionBatchError);
+    assert.equal(error.target, 1);
+    assert.equal(error.code, 'NO_CONVERTER_INPUT_TO_OUTPUT');
+    assert.equal(error.category, 'format');
+    assert.equal(count(server, '/convert/file'), 2);
+    assert.equal(error.conversions.length, 1);
+
+    await error.conversions[0].wait([0]);
+    await error.conversions[0].download();
+    assert.match(output.text(), /to pdf\.$/);
+  });
+
+  it('waits for the other conversions when one cannot be polled', async () => {
+    server.injectError('/task/response', 'FILE_NOT_EXISTS', { httpStatus: 200 });
+
+    const error = await new Converter().convertMany(new MemoryInput('a.docx', 'x'), [
+      { sink: new MemoryOutput(), format: 'pdf' },
+      { sink: new MemoryOutput(), format: 'txt' },
+    ]).catch(error => error);
+
+    assert.ok(error instanceof ConversionBatchError);
+    assert.equal(error.conversions.length, 2);
+    assert.ok(error.conversions[1 - error.target].successful());
+
+    const failed = error.conversions[error.target];
+    await failed.wait([0]);
+    assert.ok(failed.successful());
+  });
+
+  it('does not poll when a callback URL is given', async () => {
+    const conversions = await new Converter().convertMany(new MemoryInput('a.docx', 'x'), [
+      { sink: new MemoryOutput(), format: 'pdf' },
+    ], undefined, { callback: 'http://127.0.0.1:9/hook' });
+
+    assert.equal(count(server, '/task/response'), 0);
+    await conversions[0].wait([0]);
+    assert.ok(conversions[0].successful());
+  });
+});
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the runtime validation of response models.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API } from '../lib/index.js';
+import { InvalidJSONResponseError } from '../lib/entry/exceptions.js';
+import {
+  validateDownloadUrlResponse,
+  validateTaskResponse,
+  validateUploadFileResponse
+} from '../lib/api/models.js';
+
+describe('Response models', () => {
+  it('accepts well-formed responses', () => {
+    const response = { result: { output: { connector: 'c-1', name: 'a.txt', size: 3 } } };
+    assert.equal(validateUploadFileResponse(response), response);
+  });
+
+  it('names the offending path', () => {
+    assert.throws(
+      () => validateDownloadUrlResponse({ result: { output: { connector: 'c-1', name: 7 } } }),
+      error => error instanceof InvalidJSONResponseError &&
+        error.message.includes('`result.output.name`') &&
+        error.message.includes('got number')
+    );
+    assert.throws(
+      () => validateUploadFileResponse({ result: null }),
+      /expected object at `result.output`, got undefined/
+    );
+  });
+
+  it('checks nested results only when present', () => {
+    const entity = { id: 't-1', status: 'running' };
+    validateTaskResponse({ result: { output: { entity } } });
+    assert.throws(
+      () => validateTaskResponse({ result: { output: { entity, result: { output: {} } } } }),
+      /`result.output.result.output.status`/
+    );
+  });
+
+  it('validates responses returned by the client', async () => {
+    const transport = {
+      send: async () => new Response(JSON.stringify({ result: { output: { name: 'a.txt' } } }), {
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    };
+    await assert.rejects(
+      new API(undefined, { transport }).downloadUrl('c-1'),
+      InvalidJSONResponseError
+    );
+  });
+});
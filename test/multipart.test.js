@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for streamed multipart uploads.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable as NodeReadable } from 'stream';
+import { API } from '../lib/index.js';
+import { MultipartEncoder } from '../lib/utils/multipart.js';
+import { MemoryInput, startServer } from './helpers.js';
+
+/**
+ * Collect an async iterable of byte chunks into a string.
+ */
+async function collect(chunks) {
+  const parts = [];
+  for await (const chunk of chunks) {
+    parts.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(parts).toString('utf8');
+}
+
+describe('MultipartEncoder', () => {
+  it('encodes fields and files between boundaries', async () => {
+    const encoder = new MultipartEncoder(
+      { data: '{"app":"x"}' },
+      {
+        file: {
+          stream: NodeReadable.from([Buffer.from('hello '), Buffer.from('world')]),
+          filename: 'a.txt',
+          contentType: 'text/plain',
+          chunkSize: 4,
+        },
+      },
+      'BOUNDARY'
+    );
+
+    assert.equal(encoder.contentType, 'multipart/form-data; boundary=BOUNDARY');
+    assert.equal(
+      await collect(encoder.encode()),
+      '--BOUNDARY\r\nContent-Disposition: form-data; name="data"\r\n\r\n{"app":"x"}\r\n' +
+      '--BOUNDARY\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\n' +
+      'Content-Type: text/plain\r\n\r\nhello world\r\n--BOUNDARY--\r\n'
+    );
+  });
+
+  it('escapes quotes and line breaks in filenames', async () => {
+    const encoder = new MultipartEncoder({}, {
+      file: { blob: new Blob(['x']), filename: 'a"\r\n.txt', contentType: 'text/plain', chunkSize: 4 },
+    }, 'B');
+
+    assert.match(await collect(encoder.encode()), /filename="a%22%0D%0A\.txt"/);
+  });
+});
+
+describe('API.uploadFile', () => {
+  let server;
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+
+  it('streams the file to the server', async () => {
+    const contents = 'x'.repeat(100_000);
+    const response = await new API().uploadFile(new MemoryInput('big.txt', contents), 1024);
+
+    const [request] = server.requests;
+    assert.equal(request.endpoint, '/upload/file');
+    assert.equal(request.filename, 'big.txt');
+    assert.equal(request.size, contents.length);
+    assert.equal(typeof response.result.output.connector, 'string');
+  });
+});
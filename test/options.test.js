@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for conversion parameters and their typed builders.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Converter, DocumentOptions, ImageOptions, MediaOptions } from '../lib/index.js';
+import {
+  InvalidParameterError,
+  WrongTypeParameterError,
+  WrongValueParameterError
+} from '../lib/entry/exceptions.js';
+import { validateConversionParameters } from '../lib/api/options.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+describe('Parameter builders', () => {
+  it('build validated parameter records', () => {
+    assert.deepEqual(
+      new ImageOptions().quality(80).resolution(150).grayscale().set('dither', 'none').build(),
+      { quality: 80, resolution: 150, grayscale: true, dither: 'none' }
+    );
+    assert.deepEqual(
+      JSON.parse(JSON.stringify(new DocumentOptions().pages(' 1-3, 5 ,8- ').orientation('landscape'))),
+      { pages: '1-3,5,8-', orientation: 'landscape' }
+    );
+    assert.deepEqual(
+      new MediaOptions().start(1.5).size(640, 360).mute().build(),
+      { start: 1.5, width: 640, height: 360, mute: true }
+    );
+  });
+
+  it('reject values out of range', () => {
+    assert.throws(() => new ImageOptions().quality(0), WrongValueParameterError);
+    assert.throws(() => new ImageOptions().width(1.5), WrongValueParameterError);
+    assert.throws(() => new MediaOptions().channels(9), WrongValueParameterError);
+    assert.throws(() => new DocumentOptions().pages('1-3;5'), WrongValueParameterError);
+    assert.throws(() => new DocumentOptions().orientation('diagonal'), WrongValueParameterError);
+  });
+
+  it('reject reserved, malformed and mistyped parameters', () => {
+    assert.throws(() => validateConversionParameters({ output: 'pdf' }), InvalidParameterError);
+    assert.throws(() => validateConversionParameters({ 'Page-Size': 'a4' }), InvalidParameterError);
+    assert.throws(() => validateConversionParameters({ pages: ['1'] }), WrongTypeParameterError);
+    assert.throws(() => validateConversionParameters({ dpi: NaN }), WrongTypeParameterError);
+    assert.throws(
+      () => validateConversionParameters({ dpi: 72 }, ['pages']),
+      /Supported parameters: pages/
+    );
+  });
+});
+
+describe('Conversion parameters', () => {
+  let server;
+
+  before(async () => { server = await startServer({ parameters: { pdf: ['pages', 'orientation'] } }); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('are sent with the convert request', async () => {
+    const conversion = await new Converter().convert(
+      new MemoryInput('a.docx', 'docx'), new MemoryOutput(), 'pdf', undefined,
+      { parameters: new DocumentOptions().pages('2-') }
+    );
+    await conversion.wait([0]);
+
+    const convert = server.requests.find(request => request.endpoint === '/convert/file');
+    assert.deepEqual(convert.data.parameters, { pages: '2-', output: 'pdf' });
+  });
+
+  it('are checked against the output format before uploading', async () => {
+    await assert.rejects(
+      new Converter().convert(
+        new MemoryInput('a.docx', 'docx'), new MemoryOutput(), 'pdf', undefined,
+        { parameters: { quality: 90 } }
+      ),
+      InvalidParameterError
+    );
+    assert.deepEqual(endpoints(server), ['/format/get']);
+  });
+});
@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for inferring the output format from the output path.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Converter } from '../lib/index.js';
+import { FileOutput } from '../lib/entry/io.js';
+import {
+  InvalidOutputFormatError,
+  NotMatchExtensionAndOutputError
+} from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+/**
+ * In-memory output exposing a path, like `FileOutput`.
+ */
+function pathOutput(path) {
+  return Object.assign(new MemoryOutput(), { path });
+}
+
+/**
+ * Get the output format of the last convert request a server received.
+ */
+function requestedOutput(server) {
+  return server.requests.filter(request => request.endpoint === '/convert/file').pop()
+    ?.data.parameters.output;
+}
+
+describe('Output format inference', () => {
+  let server;
+  let directory;
+
+  before(async () => {
+    server = await startServer();
+    directory = await mkdtemp(join(tmpdir(), 'vertopal-output-'));
+  });
+  after(async () => {
+    await server.stop();
+    await rm(directory, { recursive: true, force: true });
+  });
+  beforeEach(() => server.reset());
+
+  it('uses the extension of the output path', async () => {
+    const path = join(directory, 'report.PDF');
+    server.script({ output: 'pdf bytes' });
+    const conversion = await new Converter().convert(new MemoryInput('report.docx', 'x'), new FileOutput(path));
+    await conversion.wait([0]);
+    await conversion.download();
+
+    assert.equal(requestedOutput(server), 'pdf');
+    assert.equal(await readFile(path, 'utf8'), 'pdf bytes');
+  });
+
+  it('maps extensions to their registered format', async () => {
+    await new Converter().convert(new MemoryInput('a.gif', 'x'), pathOutput('clip.m4v'));
+    assert.equal(requestedOutput(server), 'mp4');
+  });
+
+  it('accepts explicit formats that agree with the extension', async () => {
+    const converter = new Converter();
+    await converter.convert(new MemoryInput('a.pdf', 'x'), pathOutput('page.jpeg'), 'jpg');
+    await converter.convert(new MemoryInput('a.png', 'x'), pathOutput('a.webp'), 'WEBP-lossless');
+    await converter.convert(new MemoryInput('a.docx', 'x'), pathOutput('a.custom'), 'txt');
+
+    assert.equal(requestedOutput(server), 'txt');
+    assert.equal(server.requests.filter(request => request.endpoint === '/convert/file').length, 3);
+  });
+
+  it('rejects conflicting or missing formats before uploading', async () => {
+    const converter = new Converter();
+    await assert.rejects(
+      converter.convert(new MemoryInput('a.docx', 'x'), pathOutput('report.pdf'), 'png'),
+      NotMatchExtensionAndOutputError
+    );
+    await assert.rejects(
+      converter.convert(new MemoryInput('a.docx', 'x'), pathOutput('report')),
+      InvalidOutputFormatError
+    );
+    await assert.rejects(
+      converter.convert(new MemoryInput('a.docx', 'x'), new MemoryOutput()),
+      InvalidOutputFormatError
+    );
+    assert.deepEqual(server.requests, []);
+  });
+
+  it('names server files with the extension of the output format', async () => {
+    server.script({ filename: 'converted' });
+    const output = pathOutput(join(directory, 'ignored.pdf'));
+    const conversion = await new Converter().convert(new MemoryInput('a.docx', 'x'), output);
+    await conversion.wait([0]);
+    await conversion.download(true);
+
+    assert.equal(output.path, 'converted.pdf');
+  });
+});
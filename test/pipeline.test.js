@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for multi-step conversions and the shared polling helper.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreditBudget, Converter, MemoryUsageStore, UsageLedger } from '../lib/index.js';
+import {
+  ConversionAbortedError,
+  CreditBudgetExceededError,
+  DownloadExpiredError,
+  FailedConvertError,
+  LimitUploadSizeError,
+  PipelineStepError
+} from '../lib/entry/exceptions.js';
+import { poll } from '../lib/utils/misc.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+/**
+ * List the convert requests a server received.
+ */
+function converts(server) {
+  return server.requests
+    .filter(request => request.endpoint === '/convert/file')
+    .map(request => request.data);
+}
+
+describe('Pipeline', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('chains steps by connector and downloads the last result', async () => {
+    server.script({ vcredits: 2 }, { vcredits: 3, output: 'image' });
+    const progress = [];
+    const output = new MemoryOutput();
+
+    const pipeline = new Converter().pipeline(new MemoryInput('a.docx', 'x')).to('PDF').to('png');
+    await pipeline.run(output, { onProgress: step => progress.push(`${step.index}:${step.status}`) });
+
+    const [first, second] = converts(server);
+    assert.equal(first.parameters.input, undefined);
+    assert.equal(second.parameters.input, 'pdf');
+    assert.equal(second.connector, pipeline.steps[0].connector);
+    assert.equal(endpoints(server).filter(path => path === '/upload/file').length, 1);
+    assert.equal(output.text(), 'image');
+
+    assert.deepEqual(pipeline.steps.map(step => [step.input, step.output, step.status, step.vcredits]), [
+      [undefined, 'pdf', 'completed', 2],
+      ['pdf', 'png', 'completed', 3],
+    ]);
+    assert.deepEqual(progress, ['0:running', '0:running', '0:completed', '1:running', '1:running', '1:completed']);
+  });
+
+  it('sends an explicit input format with the first step', async () => {
+    await new Converter().pipeline(new MemoryInput('a.bin', 'x'), '.DOCX').to('pdf').run(new MemoryOutput());
+    assert.equal(converts(server)[0].parameters.input, 'docx');
+  });
+
+  it('names the step that failed', async () => {
+    server.script({}, { status: 'failed' });
+    const pipeline = new Converter().pipeline(new MemoryInput('a.docx', 'x')).to('pdf').to('png');
+
+    await assert.rejects(pipeline.run(new MemoryOutput()), error => {
+      assert.ok(error instanceof PipelineStepError);
+      assert.equal(error.step, 1);
+      assert.equal(error.input, 'pdf');
+      assert.equal(error.output, 'png');
+      assert.match(error.message, /^Step 2 of 2 \(pdf to png\) failed: /);
+      assert.ok(error.cause instanceof FailedConvertError);
+      return true;
+    });
+    assert.deepEqual(pipeline.steps.map(step => step.status), ['completed', 'failed']);
+    assert.throws(() => pipeline.to('jpg'), /cannot be added/);
+    await assert.rejects(pipeline.run(new MemoryOutput()), /already been run/);
+  });
+
+  it('wraps upload failures and can be run again', async () => {
+    server.injectError('/upload/file', 'LIMIT_UPLOAD_SIZE', { httpStatus: 200 });
+    const pipeline = new Converter().pipeline(new MemoryInput('a.docx', 'x')).to('pdf');
+
+    await assert.rejects(pipeline.run(new MemoryOutput()), error => {
+      assert.ok(error instanceof PipelineStepError);
+      assert.equal(error.step, 0);
+      assert.equal(error.code, 'LIMIT_UPLOAD_SIZE');
+      assert.match(error.message, /^Step 1 of 1 \(input to pdf\) failed to upload the input: /);
+      assert.ok(error.cause instanceof LimitUploadSizeError);
+      return true;
+    });
+    assert.equal(pipeline.steps[0].status, 'failed');
+
+    const output = new MemoryOutput();
+    await pipeline.run(output);
+    assert.equal(pipeline.steps[0].status, 'completed');
+    assert.match(output.text(), /to pdf\.$/);
+  });
+
+  it('wraps download failures', async () => {
+    server.injectError('/download/url', 'DOWNLOAD_EXPIRED', { httpStatus: 200 });
+    const pipeline = new Converter().pipeline(new MemoryInput('a.docx', 'x')).to('pdf').to('png');
+
+    await assert.rejects(pipeline.run(new MemoryOutput()), error => {
+      assert.ok(error instanceof PipelineStepError);
+      assert.equal(error.step, 1);
+      assert.match(error.message, /^Step 2 of 2 \(pdf to png\) failed to download the result: /);
+      assert.ok(error.cause instanceof DownloadExpiredError);
+      return true;
+    });
+    assert.deepEqual(pipeline.steps.map(step => step.status), ['completed', 'completed']);
+  });
+
+  it('does not wrap aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const pipeline = new Converter().pipeline(new MemoryInput('a.docx', 'x')).to('pdf');
+
+    await assert.rejects(pipeline.run(new MemoryOutput(), { signal: controller.signal }), ConversionAbortedError);
+  });
+
+  it('reserves each step in the budget and records it in the ledger', async () => {
+    server.script({ vcredits: 2 }, { vcredits: 3 });
+    const budget = new CreditBudget({ perInstance: 100 });
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    const reserved = [];
+    const converter = new Converter(undefined, { budget, ledger, interceptors: [{
+      onRequest: (request, context) => {
+        if (context.endpoint === '/convert/file') reserved.push(budget.status().reserved);
+      },
+    }] });
+
+    await converter.pipeline(new MemoryInput('a.docx', 'xyz')).to('pdf').to('png').run(new MemoryOutput());
+
+    assert.deepEqual(endpoints(server).filter(path => path === '/convert/graph').length, 2);
+    assert.deepEqual(reserved, [1, 1]);
+    assert.deepEqual(budget.status(), { spent: 5, spentInWindow: 5, reserved: 0, remaining: 95 });
+    assert.deepEqual((await ledger.query()).map(record => [
+      record.inputFormat, record.outputFormat, record.status, record.vcredits, record.inputSize, typeof record.taskId,
+    ]), [
+      ['docx', 'pdf', 'successful', 2, 3, 'string'],
+      ['pdf', 'png', 'successful', 3, undefined, 'string'],
+    ]);
+  });
+
+  it('records failed steps and releases their reservations', async () => {
+    server.script({}, { status: 'failed' });
+    const budget = new CreditBudget({ perInstance: 100 });
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    const pipeline = new Converter(undefined, { budget, ledger }).pipeline(new MemoryInput('a.docx', 'x')).to('pdf').to('png');
+
+    await assert.rejects(pipeline.run(new MemoryOutput()), PipelineStepError);
+    assert.equal(budget.status().reserved, 0);
+    assert.deepEqual((await ledger.query()).map(record => record.status), ['successful', 'failed']);
+  });
+
+  it('refuses a step over the per-job cap before requesting it', async () => {
+    const budget = new CreditBudget({ perJob: 0 });
+    const ledger = new UsageLedger(new MemoryUsageStore());
+    const pipeline = new Converter(undefined, { budget, ledger }).pipeline(new MemoryInput('a.docx', 'x')).to('pdf');
+
+    await assert.rejects(pipeline.run(new MemoryOutput()), error => {
+      assert.ok(error instanceof PipelineStepError);
+      assert.equal(error.step, 0);
+      assert.ok(error.cause instanceof CreditBudgetExceededError);
+      return true;
+    });
+    assert.equal(converts(server).length, 0);
+    assert.equal(budget.status().reserved, 0);
+    assert.deepEqual((await ledger.query()).map(record => [record.status, record.errorCode]), [
+      ['failed', 'CreditBudgetExceededError'],
+    ]);
+  });
+});
+
+describe('poll', () => {
+  it('checks before sleeping and repeats the last interval', async () => {
+    const pauses = [];
+    let checks = 0;
+    await poll(async () => ++checks === 5, [1, 2], undefined, async ms => { pauses.push(ms); });
+    assert.deepEqual(pauses, [1000, 2000, 2000, 2000]);
+
+    await poll(async () => true, [], undefined, async () => assert.fail('slept'));
+  });
+
+  it('rejects invalid intervals', async () => {
+    await assert.rejects(poll(async () => false, ['1'], undefined, async () => undefined), /pollIntervals\[0\] is not a valid number: 1/);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    await assert.rejects(
+      poll(async () => false, [1], controller.signal, async () => controller.abort()),
+      ConversionAbortedError
+    );
+  });
+});
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for conversion plans.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversionPlan, Converter } from '../lib/index.js';
+import { InvalidInputFormatError } from '../lib/entry/exceptions.js';
+import { MemoryInput, startServer } from './helpers.js';
+
+describe('ConversionPlan', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({
+      graphs: { 'docx>png': { graph: ['docx', 'pdf', 'png'], vcredits: 3 } },
+    });
+  });
+  after(() => server.stop());
+
+  it('describes the path and cost reported by the service', async () => {
+    const plan = await new Converter().plan(new MemoryInput('Report.DOCX', 'x'), 'PNG');
+
+    assert.deepEqual(plan.formats, ['docx', 'pdf', 'png']);
+    assert.deepEqual(plan.steps, [{ from: 'docx', to: 'pdf' }, { from: 'pdf', to: 'png' }]);
+    assert.equal(plan.vcredits, 3);
+    assert.equal(plan.warnings.length, 1);
+    assert.equal(String(plan), [
+      'docx -> png: 2 steps, 3 vCredits',
+      '  1. docx -> pdf',
+      '  2. pdf -> png',
+      '  Warning: Converts through intermediate formats (pdf), ' +
+        'which may take longer and affect output fidelity.',
+    ].join('\n'));
+    assert.deepEqual(JSON.parse(JSON.stringify(plan)).steps, plan.steps);
+  });
+
+  it('orders plans by cost, then by steps', async () => {
+    const converter = new Converter();
+    const direct = await converter.plan('docx', 'pdf');
+    const chained = await converter.plan('docx', 'png');
+    const unknown = new ConversionPlan('docx', 'html', ['docx', 'html']);
+    const longer = new ConversionPlan('docx', 'txt', ['docx', 'pdf', 'txt'], 1);
+
+    assert.deepEqual(
+      [unknown, chained, longer, direct].sort(ConversionPlan.compare),
+      [direct, longer, chained, unknown]
+    );
+    assert.ok(direct.compare(chained) < 0);
+    assert.match(unknown.toString(), /unknown cost/);
+  });
+
+  it('requires an input format', async () => {
+    await assert.rejects(
+      new Converter().plan(new MemoryInput('README', 'x'), 'pdf'),
+      InvalidInputFormatError
+    );
+  });
+});
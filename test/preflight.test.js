@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for preflight validation of conversions.
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Config, Converter } from '../lib/index.js';
+import {
+  EmptyFileError,
+  InputNotFoundError,
+  InvalidInputFormatError,
+  LimitUploadSizeError,
+  NoConverterInputToOutputError,
+  NotMatchExtensionAndInputError
+} from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+describe('Preflight', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+  afterEach(() => Config.update({ conversionSettings: { maxUploadSize: null } }));
+
+  it('is off by default', async () => {
+    const conversion = await new Converter().convert(
+      new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'pdf'
+    );
+    await conversion.wait([0]);
+
+    assert.ok(!endpoints(server).includes('/convert/formats'));
+  });
+
+  it('rejects unsupported pairs before uploading when enabled', async () => {
+    await assert.rejects(
+      new Converter().convert(
+        new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'mp4', undefined, { preflight: true }
+      ),
+      NoConverterInputToOutputError
+    );
+    assert.deepEqual(endpoints(server), ['/convert/formats']);
+  });
+
+  it('serves repeated checks from the converter catalog', async () => {
+    const converter = new Converter();
+    for (const output of ['pdf', 'docx']) {
+      const conversion = await converter.convert(
+        new MemoryInput('a.txt', 'text'), new MemoryOutput(), output, undefined, { preflight: true }
+      );
+      await conversion.wait([0]);
+    }
+
+    assert.equal(endpoints(server).filter(endpoint => endpoint === '/convert/formats').length, 1);
+  });
+
+  it('checks the input file', async () => {
+    const converter = new Converter();
+    const missing = Object.assign(new MemoryInput('a.txt', 'text'), { exists: async () => false });
+
+    await assert.rejects(converter.validate(missing, 'pdf'), InputNotFoundError);
+    await assert.rejects(converter.validate(new MemoryInput('a.txt', ''), 'pdf'), EmptyFileError);
+    await assert.rejects(
+      converter.validate(new MemoryInput('a.txt', 'text'), 'pdf', 'docx'),
+      NotMatchExtensionAndInputError
+    );
+    await assert.rejects(converter.validate(new MemoryInput('a.xyz', 'x'), 'pdf'), InvalidInputFormatError);
+
+    Config.update({ conversionSettings: { maxUploadSize: 3 } });
+    await assert.rejects(converter.validate(new MemoryInput('a.txt', 'text'), 'pdf'), LimitUploadSizeError);
+    assert.ok(!endpoints(server).includes('/upload/file'));
+  });
+});
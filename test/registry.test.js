@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the format registry and the content types of inputs.
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormatRegistry } from '../lib/index.js';
+import { BrowserFileInput, FileInput } from '../lib/entry/io.js';
+
+describe('FormatRegistry', () => {
+  afterEach(() => FormatRegistry.clear());
+
+  it('maps formats, extensions and MIME types', () => {
+    assert.equal(FormatRegistry.formatForExtension('.JPEG'), 'jpg');
+    assert.equal(FormatRegistry.formatForExtension('m4v'), 'mp4');
+    assert.equal(FormatRegistry.formatForMimeType('video/quicktime'), 'mov');
+    assert.equal(FormatRegistry.mimeTypeFor('svg-inkscape'), 'image/svg+xml');
+    assert.equal(FormatRegistry.extensionFor('mov'), 'mov');
+    assert.equal(FormatRegistry.extensionFor('unknownfmt-type'), 'unknownfmt');
+    assert.equal(FormatRegistry.mimeTypeForFilename('a/b/report.PDF'), 'application/pdf');
+    assert.equal(FormatRegistry.mimeTypeForFilename('README'), undefined);
+  });
+
+  it('names converted files', () => {
+    assert.equal(FormatRegistry.filenameFor('report.docx', 'pdf'), 'report.pdf');
+    assert.equal(FormatRegistry.filenameFor('photo.jpeg', 'jpg'), 'photo.jpeg');
+    assert.equal(FormatRegistry.filenameFor('notes', 'txt'), 'notes.txt');
+    assert.equal(FormatRegistry.filenameFor('clip.avi', 'mp4'), 'clip.mp4');
+  });
+
+  it('accepts custom formats that take precedence', () => {
+    FormatRegistry.register('ACME', { extensions: ['.acme', 'acm'], mimeTypes: ['Application/X-Acme'] });
+    FormatRegistry.register('jpg', { extensions: ['jfif'], mimeTypes: ['image/pjpeg'] });
+
+    assert.equal(FormatRegistry.formatForExtension('acm'), 'acme');
+    assert.equal(FormatRegistry.formatForMimeType('application/x-acme; v=2'), 'acme');
+    assert.equal(FormatRegistry.filenameFor('drawing.svg', 'acme'), 'drawing.acme');
+    assert.equal(FormatRegistry.formatForExtension('jpeg'), undefined);
+    assert.equal(FormatRegistry.mimeTypeFor('jpg'), 'image/pjpeg');
+    assert.throws(() => FormatRegistry.register('', {}), /format name is required/);
+
+    FormatRegistry.clear();
+    assert.equal(FormatRegistry.formatForExtension('jpeg'), 'jpg');
+  });
+});
+
+describe('Input content types', () => {
+  afterEach(() => FormatRegistry.clear());
+
+  it('are derived from the filename', () => {
+    assert.equal(new FileInput('docs/report.docx').contentType,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    assert.equal(new FileInput('data.unknown').contentType, 'application/octet-stream');
+    assert.equal(new FileInput('report.docx', undefined, 'text/plain').contentType, 'text/plain');
+
+    FormatRegistry.register('acme', { mimeTypes: ['application/x-acme'] });
+    assert.equal(new FileInput('drawing.acme').contentType, 'application/x-acme');
+  });
+
+  it('prefer the type reported by the browser', () => {
+    assert.equal(new BrowserFileInput(new File(['x'], 'a.png', { type: 'image/webp' })).contentType, 'image/webp');
+    assert.equal(new BrowserFileInput(new File(['x'], 'a.png')).contentType, 'image/png');
+    assert.equal(
+      new BrowserFileInput(new File(['x'], 'a.png', { type: 'application/octet-stream' })).contentType,
+      'image/png'
+    );
+  });
+});
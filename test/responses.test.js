@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the checks applied to HTTP statuses and content types.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API, Config } from '../lib/index.js';
+import { HTTPResponseError, NotFoundError } from '../lib/entry/exceptions.js';
+import { MemoryOutput } from './helpers.js';
+
+Config.update({
+  api: { endpoint: 'https://api.example.test' },
+  connectionSettings: { retryBaseDelay: 1, retryMaxDelay: 5 },
+});
+
+/**
+ * Transport answering with the queued responses, then with the last one.
+ */
+class QueueTransport {
+  constructor(...responses) {
+    this.responses = responses;
+    this.sent = 0;
+  }
+
+  async send() {
+    const factory = this.responses[Math.min(this.sent++, this.responses.length - 1)];
+    return factory();
+  }
+}
+
+const gatewayPage = () => new Response(`<html>${'Bad Gateway '.repeat(100)}</html>`, {
+  status: 502,
+  statusText: 'Bad Gateway',
+  headers: { 'Content-Type': 'text/html', 'X-Request-Id': 'req-1' },
+});
+
+describe('HTTP response checks', () => {
+  it('never writes a gateway error page into the output', async () => {
+    const transport = new QueueTransport(gatewayPage);
+    const output = new MemoryOutput();
+
+    const error = await new API(undefined, { transport })
+      .downloadUrlGet(output, 'c-1')
+      .catch(caught => caught);
+
+    assert.ok(error instanceof HTTPResponseError);
+    assert.equal(error.httpStatus, 502);
+    assert.equal(error.requestId, 'req-1');
+    assert.equal(error.headers['content-type'], 'text/html');
+    assert.ok(error.bodyPreview.startsWith('<html>Bad Gateway'));
+    assert.ok(error.bodyPreview.length <= 520);
+    assert.equal(error.category, 'transient');
+    assert.equal(output.text(), '');
+  });
+
+  it('retries gateway errors on idempotent endpoints', async () => {
+    const transport = new QueueTransport(gatewayPage, () => new Response('converted', {
+      headers: { 'Content-Type': 'application/octet-stream' },
+    }));
+    const output = new MemoryOutput();
+
+    await new API(undefined, { transport }).downloadUrlGet(output, 'c-1');
+    assert.equal(transport.sent, 2);
+    assert.equal(output.text(), 'converted');
+  });
+
+  it('rejects non-JSON responses from JSON endpoints', async () => {
+    const transport = new QueueTransport(() => new Response('plain', {
+      headers: { 'Content-Type': 'text/plain' },
+    }));
+
+    await assert.rejects(
+      new API(undefined, { transport }).formatGet('pdf'),
+      error => error instanceof HTTPResponseError && error.httpStatus === 200
+    );
+  });
+
+  it('raises API errors before checking the status of JSON responses', async () => {
+    const json = (body, status) => () => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    await assert.rejects(
+      new API(undefined, {
+        transport: new QueueTransport(json({ error: { code: 'NOT_FOUND', message: 'Gone.' } }, 404)),
+      }).formatGet('pdf'),
+      NotFoundError
+    );
+    await assert.rejects(
+      new API(undefined, { transport: new QueueTransport(json({}, 403)) }).formatGet('pdf'),
+      error => error instanceof HTTPResponseError && error.httpStatus === 403
+    );
+  });
+});
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for saving conversion state and resuming conversions from it.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Converter } from '../lib/index.js';
+import { DownloadExpiredError } from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+/**
+ * Start a conversion and save its state as a restarted process would
+ * read it back.
+ */
+async function startAndSave(options = {}) {
+  const conversion = await new Converter().convert(
+    new MemoryInput('a.docx', 'xyz'), new MemoryOutput(), 'pdf', undefined, options
+  );
+  return { conversion, state: JSON.parse(JSON.stringify(conversion)) };
+}
+
+describe('Resuming conversions', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('saves the state of a started conversion', async () => {
+    server.script({ polls: 1 });
+    const { state } = await startAndSave({ tag: 'team' });
+
+    assert.equal(state.version, 1);
+    assert.equal(typeof state.connector, 'string');
+    assert.equal(state.inputFormat, 'docx');
+    assert.equal(state.outputFormat, 'pdf');
+    assert.equal(state.inputSize, 3);
+    assert.equal(state.completed, false);
+    assert.equal(state.tag, 'team');
+    assert.equal(state.recorded, false);
+  });
+
+  it('continues polling and downloads without converting again', async () => {
+    server.script({ polls: 2, vcredits: 3, output: 'result' });
+    const { state } = await startAndSave();
+    const from = server.requests.length;
+
+    const output = new MemoryOutput();
+    const resumed = new Converter().resume(state, output);
+    await resumed.wait([0]);
+    await resumed.download();
+
+    assert.equal(resumed.successful(), true);
+    assert.equal(resumed.credits, 3);
+    assert.equal(output.text(), 'result');
+    assert.deepEqual(
+      [...new Set(endpoints(server, from))],
+      ['/task/response', '/download/url', '/download/url/get']
+    );
+  });
+
+  it('does not poll a conversion saved after it completed', async () => {
+    const { conversion } = await startAndSave();
+    await conversion.wait([0]);
+    const state = JSON.parse(JSON.stringify(conversion));
+    const from = server.requests.length;
+
+    const resumed = new Converter().resume(state, new MemoryOutput());
+    await resumed.wait([0]);
+    assert.equal(resumed.successful(), true);
+    assert.deepEqual(endpoints(server, from), []);
+  });
+
+  it('reports an expired result clearly', async () => {
+    const { conversion, state } = await startAndSave();
+    await conversion.wait([0]);
+    server.injectError('/download/url', 'DOWNLOAD_EXPIRED', { httpStatus: 200 });
+
+    const resumed = new Converter().resume(state, new MemoryOutput());
+    await resumed.wait([0]);
+    await assert.rejects(resumed.download(), error => {
+      assert.ok(error instanceof DownloadExpiredError);
+      assert.match(error.message, new RegExp(`conversion ${state.connector} has expired`));
+      assert.equal(error.code, 'DOWNLOAD_EXPIRED');
+      assert.ok(error.cause instanceof DownloadExpiredError);
+      return true;
+    });
+  });
+
+  it('rejects malformed states', async () => {
+    const { state } = await startAndSave();
+    const converter = new Converter();
+
+    assert.throws(() => converter.resume({ ...state, version: 2 }, new MemoryOutput()), /Unsupported conversion state version: 2/);
+    assert.throws(() => converter.resume({ ...state, connector: '' }, new MemoryOutput()), /no convert connector/);
+    assert.throws(() => converter.resume(undefined, new MemoryOutput()), /Unsupported/);
+  });
+});
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the retry policy and retried requests.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API, RetryPolicy } from '../lib/index.js';
+import {
+  InternalServerError,
+  NetworkConnectionError,
+  TooManyRequestsError
+} from '../lib/entry/exceptions.js';
+import { MemoryInput, endpoints, startServer } from './helpers.js';
+
+/**
+ * Build a network error caused by a refused connection, as raised by fetch.
+ */
+function refusedConnection() {
+  const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+  return new NetworkConnectionError('fetch failed', { cause: new TypeError('fetch failed', { cause }) });
+}
+
+describe('RetryPolicy', () => {
+  it('backs off exponentially up to the maximum delay', () => {
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: false });
+    assert.deepEqual([1, 2, 3, 4].map(attempt => policy.getDelay(attempt)), [200, 400, 800, 1000]);
+  });
+
+  it('keeps jittered delays within the backoff delay', () => {
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: true });
+    for (let i = 0; i < 20; i++) {
+      const delay = policy.getDelay(2);
+      assert.ok(delay >= 0 && delay < 400);
+    }
+  });
+
+  it('does not jitter by default', () => {
+    assert.equal(new RetryPolicy().jitter, false);
+  });
+
+  it('honors Retry-After in seconds and as a date', () => {
+    const policy = new RetryPolicy({ maxDelay: 60_000 });
+    assert.equal(policy.getDelay(1, '3'), 3000);
+    assert.ok(policy.getDelay(1, new Date(Date.now() + 10_000).toUTCString()) <= 10_000);
+    assert.equal(RetryPolicy.parseRetryAfter('soon'), undefined);
+  });
+
+  it('stops after the maximum number of attempts', () => {
+    const policy = new RetryPolicy({ maxAttempts: 2 });
+    const error = new NetworkConnectionError('down');
+    assert.equal(policy.shouldRetry(error, 1, '/task/response'), true);
+    assert.equal(policy.shouldRetry(error, 2, '/task/response'), false);
+  });
+
+  it('does not retry failures of /convert/file that may have started a task', () => {
+    const policy = new RetryPolicy();
+    assert.equal(policy.shouldRetry(new InternalServerError('boom'), 1, '/convert/file'), false);
+    assert.equal(policy.shouldRetry(new NetworkConnectionError('timeout'), 1, '/convert/file'), false);
+    assert.equal(policy.shouldRetry(new InternalServerError('boom'), 1, '/upload/file'), true);
+  });
+
+  it('retries /convert/file when the service provably did not start a task', () => {
+    const policy = new RetryPolicy();
+    assert.equal(policy.shouldRetry(new TooManyRequestsError('slow down'), 1, '/convert/file'), true);
+    assert.equal(policy.shouldRetry(refusedConnection(), 1, '/convert/file'), true);
+  });
+
+  it('applies explicit retryOn classes to every endpoint', () => {
+    const policy = new RetryPolicy({ retryOn: [InternalServerError] });
+    assert.equal(policy.shouldRetry(new InternalServerError('boom'), 1, '/convert/file'), true);
+    assert.equal(policy.shouldRetry(new NetworkConnectionError('down'), 1, '/upload/file'), false);
+  });
+
+  it('passes the endpoint to a custom predicate', () => {
+    const seen = [];
+    const policy = new RetryPolicy({ shouldRetry: (error, attempt, endpoint) => { seen.push(endpoint); } });
+    policy.shouldRetry(new NetworkConnectionError('down'), 1, '/format/get');
+    assert.deepEqual(seen, ['/format/get']);
+  });
+
+  it('recognizes connections that failed before sending', () => {
+    assert.equal(RetryPolicy.isUndelivered(refusedConnection()), true);
+    assert.equal(RetryPolicy.isUndelivered(new NetworkConnectionError('timeout')), false);
+    assert.equal(RetryPolicy.isIdempotent('/task/response'), true);
+    assert.equal(RetryPolicy.isIdempotent('/convert/file'), false);
+  });
+});
+
+describe('retried requests', () => {
+  let server;
+  before(async () => { server = await startServer(); });
+  beforeEach(() => server.reset());
+  after(() => server.stop());
+
+  it('opens the input again when an upload is retried', async () => {
+    const input = new MemoryInput('a.txt', 'hello world');
+    server.injectError('/upload/file', 'INTERNAL_SERVER_ERROR');
+
+    await new API().uploadFile(input);
+
+    assert.deepEqual(endpoints(server), ['/upload/file', '/upload/file']);
+    assert.deepEqual(server.requests.map(request => request.size), [11, 11]);
+    assert.equal(input.opened, 2);
+  });
+
+  it('does not resend a conversion after a server error', async () => {
+    const api = new API();
+    const upload = await api.uploadFile(new MemoryInput('a.txt', 'hello'));
+    server.injectError('/convert/file', 'INTERNAL_SERVER_ERROR');
+
+    await assert.rejects(
+      api.convertFile(upload.result.output.connector, 'pdf'),
+      InternalServerError
+    );
+    assert.deepEqual(endpoints(server), ['/upload/file', '/convert/file']);
+  });
+
+  it('resends a conversion that was rate limited', async () => {
+    const api = new API();
+    const upload = await api.uploadFile(new MemoryInput('a.txt', 'hello'));
+    server.injectError('/convert/file', 'TOO_MANY_REQUESTS');
+
+    const response = await api.convertFile(upload.result.output.connector, 'pdf');
+    assert.equal(response.entity.status, 'running');
+    assert.deepEqual(endpoints(server), ['/upload/file', '/convert/file', '/convert/file']);
+  });
+});
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for the mock Vertopal API server.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API, Converter } from '../lib/index.js';
+import {
+  InvalidCallbackError,
+  MissingAuthorizationHeaderError,
+  NetworkConnectionError,
+  NoConverterInputToOutputError
+} from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+describe('MockVertopalServer', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it('runs scripted conversions end to end', async () => {
+    server.script({ polls: 2, vcredits: 3, output: 'scripted pdf', filename: 'out.pdf' });
+    const output = new MemoryOutput();
+
+    const conversion = await new Converter().convert(
+      new MemoryInput('report.docx', 'docx bytes'), output, 'pdf'
+    );
+    await conversion.wait([0]);
+    await conversion.download();
+
+    assert.ok(conversion.successful());
+    assert.equal(conversion.credits, 3);
+    assert.equal(output.text(), 'scripted pdf');
+    assert.deepEqual(endpoints(server), [
+      '/upload/file', '/convert/file',
+      '/task/response', '/task/response', '/task/response',
+      '/download/url', '/download/url/get',
+    ]);
+    assert.equal(server.requests[0].filename, 'report.docx');
+    assert.equal(server.requests[0].size, 10);
+    assert.equal(server.requests[1].data.app, 'test-app');
+    assert.deepEqual(server.requests[1].data.parameters.output, 'pdf');
+  });
+
+  it('reports scripted failures', async () => {
+    server.script({ status: 'failed' });
+
+    const conversion = await new Converter().convert(
+      new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'pdf'
+    );
+    await conversion.wait([0]);
+    assert.equal(conversion.successful(), false);
+  });
+
+  it('validates requests like the service', async () => {
+    const api = new API();
+    const upload = await api.uploadFile(new MemoryInput('a.txt', 'text'));
+    const connector = upload.result.output.connector;
+
+    await assert.rejects(api.convertFile(connector, 'mp4'), NoConverterInputToOutputError);
+    await assert.rejects(
+      api.convertFile(connector, 'pdf', undefined, undefined, { callback: 'ftp://x' }),
+      InvalidCallbackError
+    );
+
+    const unauthenticated = new API().use({
+      onRequest(request) { delete request.headers.Authorization; },
+    });
+    await assert.rejects(unauthenticated.formatGet('pdf'), MissingAuthorizationHeaderError);
+  });
+
+  it('lists formats and conversion graphs', async () => {
+    const api = new API();
+    const outputs = await api.convertFormats('outputs', 'txt');
+    const inputs = await api.convertFormats('inputs', 'webp');
+    const graph = await api.convertGraph('docx', 'pdf');
+
+    assert.deepEqual(outputs.result.output.outputs, ['pdf', 'docx']);
+    assert.deepEqual(inputs.result.output.inputs.sort(), ['jpg', 'png']);
+    assert.deepEqual(graph.result.output.graph, ['docx', 'pdf']);
+  });
+
+  it('drops connections and delays responses on request', async () => {
+    server.dropConnection('/format/get', 5);
+    await assert.rejects(new API().formatGet('pdf'), NetworkConnectionError);
+    assert.equal(endpoints(server).length, 5);
+
+    server.latency = 100;
+    const started = Date.now();
+    await new API().formatGet('pdf');
+    assert.ok(Date.now() - started >= 100);
+    server.latency = 0;
+  });
+});
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for content-based format detection.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Converter, FormatRegistry, FormatSniffer } from '../lib/index.js';
+import { MemoryInput, MemoryOutput, startServer } from './helpers.js';
+
+/**
+ * Build a file head from strings and byte arrays.
+ */
+function head(...parts) {
+  return new Uint8Array(Buffer.concat(parts.map(part => Buffer.from(part))));
+}
+
+describe('FormatSniffer', () => {
+  it('detects formats from their signatures', async () => {
+    assert.equal(FormatSniffer.detect(head('%PDF-1.7')), 'pdf');
+    assert.equal(FormatSniffer.detect(head([0x89], 'PNG\r\n\x1a\n')), 'png');
+    assert.equal(FormatSniffer.detect(head([0x1f, 0x8b, 0x08, 0x00])), 'gz');
+    assert.equal(FormatSniffer.detect(head('ID3', [0x04, 0x00])), 'mp3');
+    assert.equal(FormatSniffer.detect(head('FLV', [0x01, 0x05])), 'flv');
+    assert.equal(FormatSniffer.detect(head('BZh9', '1AY&SY')), 'bz2');
+    assert.equal(FormatSniffer.detect(head([0, 0, 0, 0x0c], 'JXL \r\n', [0x87, 0x0a])), 'jxl');
+    assert.equal(await FormatSniffer.sniff(new MemoryInput('a.bin', '<svg xmlns="x"/>')), 'svg');
+  });
+
+  it('ignores signatures that plain text can start with', () => {
+    assert.equal(FormatSniffer.detect(head('BMW owners club minutes'), 'notes.txt'), undefined);
+    assert.equal(FormatSniffer.detect(head([0xff, 0xfb, 0x90, 0x00])), undefined);
+    assert.equal(FormatSniffer.detect(head([0x1f, 0x8b, 0x00])), undefined);
+    assert.equal(FormatSniffer.detect(head('ID3 tag cleanup checklist'), 'notes.txt'), undefined);
+    assert.equal(FormatSniffer.detect(head('FLV to MP4 migration plan'), 'notes.txt'), undefined);
+    assert.equal(FormatSniffer.detect(head('BZh9 is the bzip2 header'), 'notes.txt'), undefined);
+    assert.equal(FormatSniffer.detect(head([0xff, 0x0a], 'Latin-1 notes'), 'notes.txt'), undefined);
+  });
+
+  it('keeps the extension of generic containers', () => {
+    const xml = head('<?xml version="1.0"?><kml>');
+    const zip = head('PK\x03\x04', 'ComicInfo.xml');
+
+    assert.equal(FormatSniffer.detect(xml, 'route.kml'), 'kml');
+    assert.equal(FormatSniffer.detect(xml, 'track.gpx'), 'gpx');
+    assert.equal(FormatSniffer.detect(xml), 'xml');
+    assert.equal(FormatSniffer.detect(zip, 'issue-1.cbz'), 'cbz');
+    assert.equal(FormatSniffer.detect(zip, 'App.ipa'), 'ipa');
+    assert.equal(FormatSniffer.detect(zip), 'zip');
+    assert.equal(FormatSniffer.detect(head('PK\x03\x04', 'word/document.xml'), 'a.zip'), 'docx');
+  });
+
+  it('names ISO media brands like the format registry', () => {
+    const m4v = head([0, 0, 0, 0x18], 'ftypM4V ', [0, 0, 0, 0]);
+    assert.equal(FormatSniffer.detect(m4v), FormatRegistry.formatForExtension('m4v'));
+  });
+});
+
+describe('Input format detection', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  /**
+   * Convert a text input with preflight checks and return the input
+   * format sent to the service.
+   */
+  async function convertText(contents, outputFormat) {
+    const conversion = await new Converter().convert(
+      new MemoryInput('notes.txt', contents), new MemoryOutput(), outputFormat, undefined,
+      { preflight: true }
+    );
+    await conversion.wait([0]);
+    assert.ok(conversion.successful());
+
+    const convert = server.requests.find(request => request.endpoint === '/convert/file');
+    return convert.data.parameters.input;
+  }
+
+  it('does not mistake text for a bitmap', async () => {
+    assert.equal(await convertText('BM: meeting notes', 'pdf'), undefined);
+  });
+
+  it('falls back to the extension when preflight rejects the detection', async () => {
+    assert.equal(await convertText('%PDF- is how PDF files start', 'pdf'), 'txt');
+  });
+});
@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for synchronous conversions and their async fallback.
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Config, Converter, FetchTransport } from '../lib/index.js';
+import { HTTPResponseError, NetworkConnectionError } from '../lib/entry/exceptions.js';
+import { MemoryInput, MemoryOutput, endpoints, startServer } from './helpers.js';
+
+/**
+ * Transport that answers the first `/convert/file` request itself and
+ * sends every other request to the server.
+ */
+class FirstConvertTransport {
+  constructor(answer) {
+    this.answer = answer;
+    this.transport = new FetchTransport();
+    this.answered = false;
+  }
+
+  async send(request) {
+    if (!this.answered && request.url.endsWith('/convert/file')) {
+      this.answered = true;
+      return this.answer();
+    }
+    return this.transport.send(request);
+  }
+}
+
+/**
+ * Start a sync conversion of a small text file.
+ */
+function convert(options = {}) {
+  return new Converter(undefined, options).convert(
+    new MemoryInput('a.txt', 'text'), new MemoryOutput(), 'pdf', undefined,
+    { mode: 'sync' }
+  );
+}
+
+/**
+ * List the modes of the convert requests a server received.
+ */
+function convertModes(server) {
+  return server.requests
+    .filter(request => request.endpoint === '/convert/file')
+    .map(request => request.data.mode);
+}
+
+describe('Sync conversions', () => {
+  let server;
+
+  before(async () => { server = await startServer(); });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+  afterEach(() => {
+    server.latency = 0;
+    Config.update({ conversionSettings: { syncTimeout: 60 * 1000 } });
+  });
+
+  it('complete in the convert request', async () => {
+    const conversion = await convert();
+    await conversion.wait([0]);
+
+    assert.ok(conversion.successful());
+    assert.deepEqual(convertModes(server), ['sync']);
+    assert.ok(!endpoints(server).includes('/task/response'));
+  });
+
+  it('are not resubmitted when they time out', async () => {
+    Config.update({ conversionSettings: { syncTimeout: 100 } });
+    server.latency = 300;
+
+    await assert.rejects(convert(), NetworkConnectionError);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.deepEqual(convertModes(server), ['sync']);
+  });
+
+  it('are not resubmitted after a gateway timeout', async () => {
+    const transport = new FirstConvertTransport(() => new Response('<html>Gateway Timeout</html>', {
+      status: 504,
+      headers: { 'Content-Type': 'text/html' },
+    }));
+
+    await assert.rejects(convert({ transport }), error =>
+      error instanceof HTTPResponseError && error.httpStatus === 504
+    );
+    assert.deepEqual(convertModes(server), []);
+  });
+
+  it('fall back to async when the request was never delivered', async () => {
+    const transport = new FirstConvertTransport(() => {
+      const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      throw new TypeError('fetch failed', { cause });
+    });
+
+    const conversion = await convert({ transport });
+    await conversion.wait([0]);
+
+    assert.ok(conversion.successful());
+    assert.deepEqual(convertModes(server), ['async']);
+  });
+});
@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+//
+// Copyright (c) 2025 Vertopal - https://www.vertopal.com
+// Repository: https://github.com/vertopal/vertopal-js
+// Issues: https://github.com/vertopal/vertopal-js/issues
+//
+// Description:
+//   Tests for pluggable transports.
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable as NodeReadable } from 'stream';
+import { API, Config } from '../lib/index.js';
+import { readMultipartFile } from '../lib/utils/multipart.js';
+import { MemoryInput } from './helpers.js';
+
+/**
+ * Transport answering every request with a JSON body and logging it.
+ */
+class StubTransport {
+  constructor(body) {
+    this.body = body;
+    this.requests = [];
+  }
+
+  async send(request) {
+    this.requests.push(request);
+    return new Response(JSON.stringify(this.body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+const FORMAT_RESPONSE = {
+  entity: { id: 'task-1', status: 'completed' },
+  result: { output: { name: 'pdf', title: 'PDF' } },
+};
+
+describe('Transport', () => {
+  afterEach(() => Config.update({ connectionSettings: { transport: null } }));
+
+  it('receives normalized requests from the client', async () => {
+    const transport = new StubTransport(FORMAT_RESPONSE);
+    Config.update({ api: { endpoint: 'https://api.example.test', app: 'my-app', token: 'secret' } });
+
+    await new API(undefined, { transport }).formatGet('pdf');
+
+    const [request] = transport.requests;
+    assert.equal(request.url, 'https://api.example.test/v1/format/get');
+    assert.equal(request.method, 'POST');
+    assert.equal(request.headers.Authorization, 'Bearer secret');
+    assert.deepEqual(JSON.parse(request.fields.data), { app: 'my-app', parameters: { format: 'pdf' } });
+    assert.ok(request.signal instanceof AbortSignal);
+  });
+
+  it('hands upload streams to the transport', async () => {
+    const transport = new StubTransport({
+      entity: { id: 'upload-1', status: 'completed' },
+      result: { output: { connector: 'upload-1', name: 'a.txt', size: 5 } },
+    });
+
+    await new API(undefined, { transport }).uploadFile(new MemoryInput('a.txt', 'hello'));
+
+    const { file } = transport.requests[0].files;
+    assert.equal(file.filename, 'a.txt');
+    assert.equal(Buffer.from(await readMultipartFile(file)).toString(), 'hello');
+  });
+
+  it('uses the transport from configuration', async () => {
+    const transport = new StubTransport(FORMAT_RESPONSE);
+    Config.update({ connectionSettings: { transport } });
+
+    await new API().formatGet('pdf');
+    assert.equal(transport.requests.length, 1);
+  });
+});
+
+describe('readMultipartFile', () => {
+  it('reads streams and blobs', async () => {
+    const streamed = await readMultipartFile({
+      stream: NodeReadable.from([Buffer.from('ab'), Buffer.from('cd')]),
+      filename: 'a.bin',
+      contentType: 'application/octet-stream',
+      chunkSize: 3,
+    });
+    const blob = await readMultipartFile({
+      blob: new Blob(['xyz']),
+      filename: 'b.bin',
+      contentType: 'application/octet-stream',
+      chunkSize: 3,
+    });
+
+    assert.equal(Buffer.from(streamed).toString(), 'abcd');
+    assert.equal(Buffer.from(blob).toString(), 'xyz');
+  });
+});